@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { api } from "~/trpc/react";
+
+interface GlossaryPanelProps {
+  projectId: string;
+}
+
+// Editable row; variants are typed as a comma-separated list
+interface GlossaryRow {
+  term: string;
+  variants: string;
+}
+
+const toRows = (entries: { term: string; variants: string[] }[]): GlossaryRow[] =>
+  entries.map(entry => ({ term: entry.term, variants: entry.variants.join(', ') }));
+
+// Project glossary: preferred spellings fed to transcription and the misrecognitions rewritten to them
+export function GlossaryPanel({ projectId }: GlossaryPanelProps) {
+  const utils = api.useUtils();
+  const { data: entries, isLoading } = api.project.getGlossary.useQuery({ projectId }, { refetchOnWindowFocus: false });
+  const saveGlossaryMutation = api.project.saveGlossary.useMutation({
+    onSuccess: () => utils.project.getGlossary.invalidate({ projectId }),
+  });
+  const [rows, setRows] = useState<GlossaryRow[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (entries) {
+      setRows(toRows(entries));
+      setIsDirty(false);
+    }
+  }, [entries]);
+
+  const updateRow = (index: number, changes: Partial<GlossaryRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setIsDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    saveGlossaryMutation.mutate({
+      projectId,
+      entries: rows
+        .filter(row => row.term.trim())
+        .map(row => ({
+          term: row.term.trim(),
+          variants: row.variants.split(',').map(variant => variant.trim()).filter(Boolean),
+        })),
+    });
+  };
+
+  return (
+    <div className="w-full p-3 rounded-md shadow-lg border border-white/10 bg-[#252526] text-white text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="font-semibold">Glossary</h3>
+          <p className="text-xs text-white/60">
+            Place names, dialect words and brand names in their preferred spelling. Used as a hint for
+            transcription; listed misrecognitions are corrected afterwards.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-white/60"><Loader2 size={12} className="inline mr-1 animate-spin" />Loading glossary…</p>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+          {rows.length > 0 && (
+            <div className="grid grid-cols-[1fr_2fr_auto] gap-2 text-xs text-white/50 px-1">
+              <span>Term</span>
+              <span>Misrecognitions (comma-separated)</span>
+              <span />
+            </div>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+              <input
+                value={row.term}
+                onChange={(e) => updateRow(index, { term: e.target.value })}
+                placeholder="Zürichberg"
+                className="bg-[#1e1e1e] border border-white/10 rounded px-2 py-1 text-xs"
+              />
+              <input
+                value={row.variants}
+                onChange={(e) => updateRow(index, { variants: e.target.value })}
+                placeholder="Zuri Berg, Zürich Berg"
+                className="bg-[#1e1e1e] border border-white/10 rounded px-2 py-1 text-xs"
+              />
+              <button
+                onClick={() => removeRow(index)}
+                className="p-1 rounded text-white/60 hover:text-red-300 hover:bg-white/10"
+                title="Remove term"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={() => {
+            setRows(prev => [...prev, { term: '', variants: '' }]);
+            setIsDirty(true);
+          }}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs transition-colors"
+        >
+          <Plus size={12} /> Add term
+        </button>
+        <div className="ml-auto flex items-center gap-2 text-xs text-white/60">
+          {saveGlossaryMutation.isPending ? (
+            <><Loader2 size={12} className="animate-spin" />Saving…</>
+          ) : saveGlossaryMutation.isError ? (
+            <><AlertTriangle size={12} className="text-red-400" />Saving failed</>
+          ) : saveGlossaryMutation.isSuccess && !isDirty ? (
+            <><CheckCircle2 size={12} className="text-green-400" />Saved</>
+          ) : null}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || saveGlossaryMutation.isPending}
+            className="px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded text-white transition-colors"
+          >
+            Save glossary
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
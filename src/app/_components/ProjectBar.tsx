@@ -0,0 +1,86 @@
+"use client";
+
+import { FolderOpen, Plus, Loader2, CheckCircle2, AlertTriangle, BookOpen, Languages } from 'lucide-react';
+import { api } from "~/trpc/react";
+import type { ProjectSaveState } from '~/utils/useProjectSync';
+
+interface ProjectBarProps {
+  projectId: string | null;
+  saveState: ProjectSaveState;
+  uploadProgress: number | null; // Progress of the background video upload
+  onSelectProject: (projectId: string) => void;
+  onNewProject: () => void;
+  tracks: { id: string; name: string }[]; // Subtitle tracks of the project
+  trackId: string | null; // Track being edited
+  onSelectTrack: (trackId: string) => void;
+  isGlossaryOpen: boolean;
+  onToggleGlossary: () => void;
+}
+
+// Project picker and save status shown above the editor
+export function ProjectBar({ projectId, saveState, uploadProgress, onSelectProject, onNewProject, tracks, trackId, onSelectTrack, isGlossaryOpen, onToggleGlossary }: ProjectBarProps) {
+  const { data: projects } = api.project.list.useQuery(undefined, { refetchOnWindowFocus: false });
+
+  return (
+    <div className="flex items-center gap-3 w-full text-sm text-white/80">
+      <FolderOpen size={16} className="text-white/60" />
+      <select
+        value={projectId ?? ''}
+        onChange={(e) => e.target.value && onSelectProject(e.target.value)}
+        className="bg-[#252526] border border-white/10 rounded px-2 py-1 text-white max-w-xs"
+        aria-label="Open project"
+      >
+        <option value="" disabled>
+          {projects?.length ? 'Open a project…' : 'No saved projects'}
+        </option>
+        {projects?.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={onNewProject}
+        className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors"
+        title="Start a new project with another video"
+      >
+        <Plus size={14} /> New
+      </button>
+      <button
+        onClick={onToggleGlossary}
+        disabled={!projectId}
+        className={`flex items-center gap-1 px-2 py-1 rounded transition-colors disabled:opacity-50 ${
+          isGlossaryOpen ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-white/10 hover:bg-white/20'
+        }`}
+        title={projectId ? 'Edit the transcription glossary of this project' : 'The glossary is saved with a project'}
+      >
+        <BookOpen size={14} /> Glossary
+      </button>
+      {tracks.length > 1 && (
+        <>
+          <Languages size={16} className="text-white/60" />
+          <select
+            value={trackId ?? ''}
+            onChange={(e) => e.target.value && onSelectTrack(e.target.value)}
+            className="bg-[#252526] border border-white/10 rounded px-2 py-1 text-white"
+            aria-label="Edit subtitle track"
+          >
+            {tracks.map(track => (
+              <option key={track.id} value={track.id}>{track.name}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <div className="ml-auto flex items-center gap-1 text-xs text-white/60">
+        {uploadProgress !== null ? (
+          <><Loader2 size={12} className="animate-spin" />Uploading video… {uploadProgress}%</>
+        ) : saveState === 'saving' ? (
+          <><Loader2 size={12} className="animate-spin" />Saving…</>
+        ) : saveState === 'saved' ? (
+          <><CheckCircle2 size={12} className="text-green-400" />All changes saved</>
+        ) : saveState === 'error' ? (
+          <><AlertTriangle size={12} className="text-red-400" />Saving failed</>
+        ) : null}
+      </div>
+    </div>
+  );
+}
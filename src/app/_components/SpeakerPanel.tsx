@@ -0,0 +1,131 @@
+"use client";
+
+import { Plus, Trash2, UserCheck, UserX } from 'lucide-react';
+import { useSubtitleStore } from '~/store/subtitleStore';
+import { addSpeakerStyles, createSpeakerId } from '~/utils/subtitleStyle';
+import type { SpeakerStyle, SubtitleStyle } from './VideoPlayerWithKonva';
+
+interface SpeakerPanelProps {
+  style: SubtitleStyle;
+  onChangeSpeakers: (speakers: Record<string, SpeakerStyle>) => void;
+}
+
+// Speaker positions; "Same as others" leaves the position to the main style
+const SPEAKER_POSITION_OPTIONS = [
+  { value: '', name: 'Same as others' },
+  { value: 'bottom', name: 'Bottom' },
+  { value: 'middle', name: 'Middle' },
+  { value: 'top', name: 'Top' },
+  { value: 'custom', name: 'Custom (Drag)' },
+] as const;
+
+// Speakers of the subtitles: names, colours and positions, and which cues they say
+export function SpeakerPanel({ style, onChangeSpeakers }: SpeakerPanelProps) {
+  const subtitles = useSubtitleStore(state => state.subtitles);
+  const selectedSubtitleIds = useSubtitleStore(state => state.selectedSubtitleIds);
+  const updateSubtitles = useSubtitleStore(state => state.updateSubtitles);
+  const speakers = style.speakers ?? {};
+
+  const updateSpeaker = (id: string, changes: Partial<SpeakerStyle>) => {
+    onChangeSpeakers({ ...speakers, [id]: { ...speakers[id]!, ...changes } });
+  };
+
+  const addSpeaker = () => {
+    onChangeSpeakers(addSpeakerStyles(speakers, [createSpeakerId(speakers)]) ?? speakers);
+  };
+
+  // Cues of a removed speaker fall back to the main style
+  const removeSpeaker = (id: string) => {
+    const rest = Object.fromEntries(Object.entries(speakers).filter(([speakerId]) => speakerId !== id));
+    updateSubtitles(subtitles.filter(sub => sub.speaker === id).map(sub => ({ id: sub.id, changes: { speaker: undefined } })));
+    onChangeSpeakers(rest);
+  };
+
+  const assignSelection = (speaker: string | undefined) => {
+    updateSubtitles(selectedSubtitleIds.map(id => ({ id, changes: { speaker } })));
+  };
+
+  return (
+    <div className="grid gap-3 text-sm text-white">
+      <p className="text-xs text-white/60">
+        Speakers detected during transcription appear here. Select cues on the timeline to assign them to a speaker.
+      </p>
+
+      {Object.keys(speakers).length > 0 && (
+        <div className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-2">
+          <span className="text-xs text-white/50">Name</span>
+          <span className="text-xs text-white/50">Colour</span>
+          <span className="text-xs text-white/50">Position</span>
+          <span className="text-xs text-white/50">Cues</span>
+          <span />
+          {Object.entries(speakers).map(([id, speaker]) => (
+            <div key={id} className="contents">
+              <input
+                value={speaker.name}
+                onChange={(e) => updateSpeaker(id, { name: e.target.value })}
+                className="bg-[#1e1e1e] border border-white/10 rounded px-2 py-1 text-xs"
+              />
+              <input
+                type="color"
+                value={speaker.textColor ?? style.textColor}
+                onChange={(e) => updateSpeaker(id, { textColor: e.target.value.toUpperCase() })}
+                className="w-8 h-6 bg-transparent border border-white/10 rounded cursor-pointer"
+                title="Text colour"
+              />
+              <select
+                value={speaker.position ?? ''}
+                onChange={(e) => {
+                  const position = e.target.value as SubtitleStyle['position'] | '';
+                  updateSpeaker(id, position
+                    ? { position, customX: style.customX, customY: style.customY }
+                    : { position: undefined, customX: undefined, customY: undefined });
+                }}
+                className="bg-[#1e1e1e] border border-white/10 rounded px-1 py-1 text-xs"
+              >
+                {SPEAKER_POSITION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.name}</option>
+                ))}
+              </select>
+              <span className="text-xs text-white/60 text-right font-mono">
+                {subtitles.filter(sub => sub.speaker === id).length}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => assignSelection(id)}
+                  disabled={selectedSubtitleIds.length === 0}
+                  className="p-1 rounded text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={`Assign ${selectedSubtitleIds.length} selected cue(s) to ${speaker.name}`}
+                >
+                  <UserCheck size={14} />
+                </button>
+                <button
+                  onClick={() => removeSpeaker(id)}
+                  className="p-1 rounded text-white/60 hover:text-red-300 hover:bg-white/10"
+                  title="Remove speaker"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={addSpeaker}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs transition-colors"
+        >
+          <Plus size={12} /> Add speaker
+        </button>
+        <button
+          onClick={() => assignSelection(undefined)}
+          disabled={selectedSubtitleIds.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <UserX size={12} /> Clear speaker of selection
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Eraser, Trash2 } from 'lucide-react';
+import { useSubtitleStore, type SubtitleStyleOverride } from '~/store/subtitleStore';
+import { BG_COLOR_OPTIONS, FONT_SIZE_RANGE, TEXT_COLOR_OPTIONS } from '~/utils/subtitleStyle';
+
+// Style override fields; an empty value leaves the field to the main style
+const OVERRIDE_FIELDS = [
+  { key: 'textColor', label: 'Text', options: TEXT_COLOR_OPTIONS.map(color => ({ value: color.value, name: color.name })) },
+  { key: 'bgColor', label: 'Background', options: BG_COLOR_OPTIONS.map(color => ({ value: color.value, name: color.name })) },
+  {
+    key: 'fontSize',
+    label: 'Size',
+    options: Array.from(
+      { length: Math.floor((FONT_SIZE_RANGE.max - FONT_SIZE_RANGE.min) / 2) + 1 },
+      (_, index) => ({ value: String(FONT_SIZE_RANGE.min + index * 2), name: `${FONT_SIZE_RANGE.min + index * 2}px` })
+    ),
+  },
+  {
+    key: 'position',
+    label: 'Position',
+    options: [
+      { value: 'bottom', name: 'Bottom' },
+      { value: 'middle', name: 'Middle' },
+      { value: 'top', name: 'Top' },
+    ],
+  },
+] as const;
+
+// Actions on all cues selected on the timeline, each one undo step
+export function SubtitleBatchBar() {
+  const subtitles = useSubtitleStore(state => state.subtitles);
+  const selectedSubtitleIds = useSubtitleStore(state => state.selectedSubtitleIds);
+  const moveSubtitles = useSubtitleStore(state => state.moveSubtitles);
+  const nudgeSubtitles = useSubtitleStore(state => state.nudgeSubtitles);
+  const deleteSubtitles = useSubtitleStore(state => state.deleteSubtitles);
+  const setStyleOverride = useSubtitleStore(state => state.setStyleOverride);
+  const [moveBy, setMoveBy] = useState(1);
+
+  const selected = subtitles.filter(sub => selectedSubtitleIds.includes(sub.id));
+  if (selected.length === 0) return null;
+
+  // Value shared by all selected cues, 'mixed' if they differ
+  const overrideValue = (key: keyof SubtitleStyleOverride) => {
+    const values = new Set(selected.map(sub => String(sub.styleOverride?.[key] ?? '')));
+    return values.size === 1 ? [...values][0]! : 'mixed';
+  };
+
+  const applyOverride = (key: keyof SubtitleStyleOverride, value: string) => {
+    const parsed = value === '' ? undefined : key === 'fontSize' ? Number(value) : value;
+    setStyleOverride(selectedSubtitleIds, { [key]: parsed } as SubtitleStyleOverride);
+  };
+
+  return (
+    <div className="px-3 py-2 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <span className="font-medium mr-auto">{selected.length} cue(s) selected</span>
+        <button
+          onClick={() => nudgeSubtitles(selectedSubtitleIds, -1)}
+          className="p-1 rounded bg-gray-600 hover:bg-gray-500"
+          title="Nudge one frame earlier (←, Shift+← for ten)"
+        >
+          <ChevronLeft size={14} />
+        </button>
+        <button
+          onClick={() => nudgeSubtitles(selectedSubtitleIds, 1)}
+          className="p-1 rounded bg-gray-600 hover:bg-gray-500"
+          title="Nudge one frame later (→, Shift+→ for ten)"
+        >
+          <ChevronRight size={14} />
+        </button>
+        <input
+          type="number"
+          step={0.1}
+          value={moveBy}
+          onChange={(e) => setMoveBy(Number(e.target.value))}
+          className="w-14 bg-[#252526] border border-white/10 rounded px-1 py-0.5 text-right"
+          title="Seconds to move by; negative moves earlier"
+        />
+        <button
+          onClick={() => moveSubtitles(selectedSubtitleIds, moveBy)}
+          disabled={!Number.isFinite(moveBy) || moveBy === 0}
+          className="px-2 py-0.5 rounded bg-gray-600 hover:bg-gray-500 disabled:opacity-50"
+        >
+          Move
+        </button>
+        <button
+          onClick={() => deleteSubtitles(selectedSubtitleIds)}
+          className="p-1 rounded bg-red-700 hover:bg-red-600"
+          title="Delete selected cues (Delete)"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        {OVERRIDE_FIELDS.map(field => (
+          <label key={field.key} className="flex items-center gap-1 text-white/80">
+            {field.label}
+            <select
+              value={overrideValue(field.key)}
+              onChange={(e) => applyOverride(field.key, e.target.value)}
+              className="bg-[#252526] border border-white/10 rounded px-1 py-0.5"
+            >
+              <option value="mixed" disabled hidden>Mixed</option>
+              <option value="">Main style</option>
+              {field.options.map(option => (
+                <option key={option.value} value={option.value}>{option.name}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <button
+          onClick={() => setStyleOverride(selectedSubtitleIds, null)}
+          disabled={selected.every(sub => !sub.styleOverride)}
+          className="p-1 rounded bg-gray-600 hover:bg-gray-500 disabled:opacity-50"
+          title="Clear style overrides"
+        >
+          <Eraser size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { useSubtitleStore, type Subtitle } from '~/store/subtitleStore';
+import { LINT_PROFILES, lintSubtitles, type SubtitleLintIssue, type SubtitleLintLayout, type SubtitleLintProfile } from '~/utils/subtitleLint';
+
+interface SubtitleLintPanelProps {
+  videoDuration: number;
+  textLayout?: { fontSize: number; fontFamily: string; textWidth: number }; // Omitted skips the line count check
+  onRevealCue: (subtitle: Subtitle) => void;
+}
+
+// Editable limits of the selected profile
+const PROFILE_FIELDS: { key: keyof Omit<SubtitleLintProfile, 'id' | 'name'>; label: string; step: number; min: number }[] = [
+  { key: 'minDuration', label: 'Min duration (s)', step: 0.05, min: 0.1 },
+  { key: 'maxCharsPerSecond', label: 'Max characters per second', step: 1, min: 5 },
+  { key: 'maxLines', label: 'Max lines', step: 1, min: 1 },
+  { key: 'minGapFrames', label: 'Min gap (frames)', step: 1, min: 0 },
+  { key: 'frameRate', label: 'Frame rate', step: 1, min: 1 },
+];
+
+const formatCueTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+// QA view: every cue checked against a subtitle profile, with one-click fixes
+export function SubtitleLintPanel({ videoDuration, textLayout, onRevealCue }: SubtitleLintPanelProps) {
+  const subtitles = useSubtitleStore(state => state.subtitles);
+  const updateSubtitle = useSubtitleStore(state => state.updateSubtitle);
+  const [profile, setProfile] = useState<SubtitleLintProfile>(LINT_PROFILES[0]!);
+
+  // Measures with a canvas in the preview's font, so line counts match what is shown
+  const { fontSize, fontFamily, textWidth } = textLayout ?? {};
+  const layout = useMemo((): SubtitleLintLayout | undefined => {
+    if (!fontSize || !fontFamily || !textWidth || textWidth <= 0) return undefined;
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) return undefined;
+    context.font = `${fontSize}px ${fontFamily}`;
+    return { textWidth, measureText: (text) => context.measureText(text).width };
+  }, [fontSize, fontFamily, textWidth]);
+
+  const issues = useMemo(
+    () => lintSubtitles(subtitles, profile, { videoDuration, layout }),
+    [subtitles, profile, videoDuration, layout]
+  );
+  const subtitlesById = useMemo(() => new Map(subtitles.map(sub => [sub.id, sub])), [subtitles]);
+
+  const applyFix = (issue: SubtitleLintIssue) => {
+    if (issue.fix) updateSubtitle(issue.subtitleId, issue.fix.changes);
+  };
+
+  return (
+    <div className="w-96 p-3 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs flex flex-col gap-2 select-text">
+      <label className="flex items-center justify-between gap-2">
+        Profile
+        <select
+          value={profile.id}
+          onChange={(e) => setProfile(LINT_PROFILES.find(p => p.id === e.target.value) ?? profile)}
+          className="bg-[#252526] border border-white/10 rounded px-1 py-0.5"
+        >
+          {LINT_PROFILES.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {PROFILE_FIELDS.map(field => (
+          <label key={field.key} className="flex items-center justify-between gap-2 text-white/80">
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              step={field.step}
+              value={Number(profile[field.key].toFixed(2))}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= field.min) {
+                  setProfile(prev => ({ ...prev, [field.key]: value }));
+                }
+              }}
+              className="w-14 bg-[#252526] border border-white/10 rounded px-1 py-0.5 text-right"
+            />
+          </label>
+        ))}
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="flex items-center text-green-400">
+          <CheckCircle2 className="inline mr-2 shrink-0" size={14} />
+          {subtitles.length > 0 ? 'All cues pass this profile.' : 'No subtitles to check.'}
+        </p>
+      ) : (
+        <>
+          <p className="text-white/70">{issues.length} issue(s) in {new Set(issues.map(issue => issue.subtitleId)).size} cue(s)</p>
+          <ul className="max-h-64 overflow-y-auto flex flex-col gap-1">
+            {issues.map(issue => {
+              const subtitle = subtitlesById.get(issue.subtitleId);
+              if (!subtitle) return null;
+              return (
+                <li key={issue.key} className="flex items-start gap-2 p-1.5 rounded hover:bg-white/5">
+                  {issue.severity === 'error'
+                    ? <XCircle size={14} className="text-red-400 shrink-0 mt-0.5" />
+                    : <AlertTriangle size={14} className="text-amber-400 shrink-0 mt-0.5" />}
+                  <button
+                    onClick={() => onRevealCue(subtitle)}
+                    className="flex-1 text-left"
+                    title="Show cue on the timeline"
+                  >
+                    <span className="font-mono text-white/50 mr-1">{formatCueTime(subtitle.start)}</span>
+                    {issue.message}
+                    <span className="block truncate text-white/50">{subtitle.text || '(empty)'}</span>
+                  </button>
+                  {issue.fix && (
+                    <button
+                      onClick={() => applyFix(issue)}
+                      className="shrink-0 px-2 py-0.5 rounded bg-gray-600 hover:bg-gray-500"
+                    >
+                      {issue.fix.label}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
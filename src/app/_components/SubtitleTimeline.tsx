@@ -2,19 +2,38 @@
 
 import React, { useRef, useMemo, useState, useEffect } from 'react';
 import { useSubtitleStore, type Subtitle } from '~/store/subtitleStore';
-import { Play, ZoomIn, ZoomOut, Mic } from 'lucide-react'; // Added Mic icon
+import { Play, ZoomIn, ZoomOut, Mic, FileUp, AlertTriangle, SlidersHorizontal, SpellCheck, ScanSearch, WrapText, ListChecks } from 'lucide-react'; // Added Mic icon
 import { VideoThumbnailStrip } from './VideoThumbnailStrip';
-import { api } from "~/trpc/react";
-import type { TranscriptionSegment } from "~/server/api/routers/video";
+import { SubtitleLintPanel } from './SubtitleLintPanel';
+import { SubtitleBatchBar } from './SubtitleBatchBar';
+import type { TranscriptionOutputLanguage, TranscriptionSegment } from "~/server/api/routers/video";
+import { parseSubtitleFile, type SubtitleParseResult } from '~/utils/parseSubtitles';
+import { uploadAsset } from '~/utils/uploadAsset';
+import { useTranscriptionJob } from '~/utils/useTranscriptionJob';
+import { normalizeSwissSubtitle } from '~/utils/swissOrthography';
+import { findNextLowConfidence, getConfidenceIssues } from '~/utils/confidence';
+import { DEFAULT_RESEGMENT_OPTIONS, resegmentSubtitles, type ResegmentOptions } from '~/utils/resegment';
 
 // Define the expected structure for segments coming from the backend
 interface TranscriptionSegmentFromBackend {
   text: string;
   start: number;
   end: number;
-  words?: Array<{ word: string; start: number; end: number }>;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+  confidence?: Subtitle['confidence'];
+  speaker?: string;
 }
 
+// Editable re-segmentation targets
+const RESEGMENT_FIELDS: { key: keyof ResegmentOptions; label: string; step: number; min: number }[] = [
+    { key: 'maxCharsPerLine', label: 'Max characters per line', step: 1, min: 10 },
+    { key: 'maxLines', label: 'Max lines', step: 1, min: 1 },
+    { key: 'maxCharsPerSecond', label: 'Max characters per second', step: 1, min: 5 },
+    { key: 'minDuration', label: 'Min duration (s)', step: 0.1, min: 0.1 },
+    { key: 'maxDuration', label: 'Max duration (s)', step: 0.5, min: 1 },
+    { key: 'minGap', label: 'Min gap (s)', step: 0.01, min: 0 },
+];
+
 // --- START: Restore Audio processing functions ---
 /**
  * Helper to write ASCII strings into DataView.
@@ -94,18 +113,19 @@ async function extractCompressedAudioFromVideo(
   // 3. Encode samples as 16-bit PCM WAV
   return encodeWav(samples, targetRate);
 }
-// Helper function to convert ArrayBuffer to Base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]!);
-  }
-  return window.btoa(binary);
-}
 // --- END: Restore Audio processing functions ---
 
+// Audio settings for server-side extraction before transcription
+interface TranscriptionAudioOptions {
+  channel: 'mix' | number; // Downmix all channels or use one (0-based)
+  normalizeLoudness: boolean;
+}
+
+const AUDIO_CHANNEL_CHOICES = 6; // Channels offered in the picker besides the downmix
+
+// Maximum number of parse issues listed in the import panel
+const MAX_LISTED_IMPORT_ISSUES = 8;
+
 const formatTimeRuler = (timeInSeconds: number): string => {
     const minutes = Math.floor(timeInSeconds / 60);
     const seconds = Math.floor(timeInSeconds % 60);
@@ -117,30 +137,70 @@ interface SubtitleTimelineProps {
     duration: number;
     onSeek: (time: number) => void; // Function to call when seeking
     videoUrl?: string; // Add videoUrl prop
+    getVideoAssetId?: () => Promise<string>; // Resolves the uploaded video so the server can extract its audio
+    videoAssetId?: string | null; // Uploaded copy of the current video, if known
+    onDialectTranscription?: (subtitles: Subtitle[]) => void; // Dialect original of a Standard German transcription
+    textLayout?: { fontSize: number; fontFamily: string; textWidth: number }; // Preview text layout, for the line count check
 }
 
 export function SubtitleTimeline({ 
     currentTime,
     duration,
     onSeek,
-    videoUrl
+    videoUrl,
+    getVideoAssetId,
+    videoAssetId,
+    onDialectTranscription,
+    textLayout
 }: SubtitleTimelineProps) {
     const subtitles = useSubtitleStore((state) => state.subtitles);
     const addSubtitles = useSubtitleStore((state) => state.addSubtitles);
+    const replaceSubtitles = useSubtitleStore((state) => state.replaceSubtitles);
     const updateSubtitleTime = useSubtitleStore((state) => state.updateSubtitle); // Renamed for clarity
+    const updateSubtitles = useSubtitleStore((state) => state.updateSubtitles);
+    const splitSubtitle = useSubtitleStore((state) => state.splitSubtitle);
+    const mergeSubtitle = useSubtitleStore((state) => state.mergeSubtitle);
+    const selectedSubtitleIds = useSubtitleStore((state) => state.selectedSubtitleIds);
+    const setSelectedSubtitleIds = useSubtitleStore((state) => state.setSelectedSubtitleIds);
+    const selectSubtitle = useSubtitleStore((state) => state.selectSubtitle);
+    const selectSubtitlesInRange = useSubtitleStore((state) => state.selectSubtitlesInRange);
+    const moveSubtitles = useSubtitleStore((state) => state.moveSubtitles);
     const timelineRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const playheadRef = useRef<HTMLDivElement>(null); // <-- Add ref for playhead
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const trackRef = useRef<HTMLDivElement>(null);
+    // Set when a drag or marquee ends, so the click that follows doesn't change the selection
+    const suppressClickRef = useRef(false);
     const [zoomOrigin, setZoomOrigin] = useState<{ timeAtMouse: number; mouseX: number } | null>(null); // <-- Add this state
     
+    // Parsed subtitle file waiting for the user to choose replace or merge
+    const [pendingImport, setPendingImport] = useState<(SubtitleParseResult & { fileName: string }) | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [audioOptions, setAudioOptions] = useState<TranscriptionAudioOptions>({ channel: 'mix', normalizeLoudness: false });
+    const [showAudioOptions, setShowAudioOptions] = useState(false);
+    const [outputLanguage, setOutputLanguage] = useState<TranscriptionOutputLanguage>('gsw');
+    const [speakerCount, setSpeakerCount] = useState<number | null>(null); // null: no speaker detection
+    const [showResegment, setShowResegment] = useState(false);
+    const [resegmentOptions, setResegmentOptions] = useState<ResegmentOptions>(DEFAULT_RESEGMENT_OPTIONS);
+    const [resegmentResult, setResegmentResult] = useState<string | null>(null);
+    const [orthographyResult, setOrthographyResult] = useState<string | null>(null);
+    const [showLint, setShowLint] = useState(false);
+    // Right-clicked cue and where its menu opens (viewport coordinates)
+    const [contextMenu, setContextMenu] = useState<{ subtitleId: string; x: number; y: number } | null>(null);
+
     // State for drag operations
     const [activeDrag, setActiveDrag] = useState<{
         id: string;
-        mode: 'resize-start' | 'resize-end'; // Later: | 'move'
+        mode: 'resize-start' | 'resize-end' | 'move';
+        ids: string[]; // Cues moved together; for 'move', originalStart/End span all of them
         initialMouseX: number;
         originalStart: number;
         originalEnd: number;
     } | null>(null);
+    const [moveOffset, setMoveOffset] = useState(0); // Seconds the moved cues are previewed shifted by
+    // Marquee selection on the subtitle track, in pixels from the track's left edge
+    const [marquee, setMarquee] = useState<{ startX: number; currentX: number; additive: boolean } | null>(null);
 
     // Zoom state (pixels per second)
     const [pixelsPerSecond, setPixelsPerSecond] = useState(50);
@@ -190,12 +250,28 @@ export function SubtitleTimeline({
     useEffect(() => {
         if (!activeDrag) return;
 
+        const MOVE_THRESHOLD = 3; // Pixels before a press on a cue becomes a move
+
+        // Move in seconds for the mouse position, keeping the moved cues within the video
+        const getMoveDelta = (clientX: number) => {
+            const deltaX = clientX - activeDrag.initialMouseX;
+            if (Math.abs(deltaX) < MOVE_THRESHOLD) return 0;
+            const maxDelta = duration > 0 ? duration - activeDrag.originalEnd : Infinity;
+            return Math.min(Math.max(deltaX / pixelsPerSecond, -activeDrag.originalStart), maxDelta);
+        };
+
         const handleGlobalMouseMove = (event: MouseEvent) => {
             if (!activeDrag || !containerRef.current) return; // Ensure activeDrag and containerRef are present
             
             // Prevent text selection during drag
             event.preventDefault();
 
+            // Moves are only previewed while dragging and stored as one step on mouse up
+            if (activeDrag.mode === 'move') {
+                setMoveOffset(getMoveDelta(event.clientX));
+                return;
+            }
+
             const deltaX = event.clientX - activeDrag.initialMouseX;
             const deltaTime = deltaX / pixelsPerSecond;
             const MIN_DURATION = 0.1; // Minimum duration of a subtitle segment in seconds
@@ -235,8 +311,16 @@ export function SubtitleTimeline({
             }
         };
 
-        const handleGlobalMouseUp = () => {
+        const handleGlobalMouseUp = (event: MouseEvent) => {
             // console.log('Mouse up, clearing activeDrag');
+            if (activeDrag.mode === 'move') {
+                const delta = getMoveDelta(event.clientX);
+                if (delta !== 0) {
+                    moveSubtitles(activeDrag.ids, delta);
+                    suppressClickRef.current = true;
+                }
+                setMoveOffset(0);
+            }
             setActiveDrag(null);
         };
 
@@ -249,28 +333,71 @@ export function SubtitleTimeline({
             window.removeEventListener('mousemove', handleGlobalMouseMove);
             window.removeEventListener('mouseup', handleGlobalMouseUp);
         };
-    }, [activeDrag, pixelsPerSecond, duration, updateSubtitleTime]); // Dependencies for the effect
+    }, [activeDrag, pixelsPerSecond, duration, updateSubtitleTime, moveSubtitles]); // Dependencies for the effect
+
+    // Effect for drawing the marquee; on release, cues it touches are selected
+    useEffect(() => {
+        if (!marquee) return;
+
+        const handleGlobalMouseMove = (event: MouseEvent) => {
+            if (!trackRef.current) return;
+            event.preventDefault();
+            const currentX = event.clientX - trackRef.current.getBoundingClientRect().left;
+            setMarquee(prev => prev && { ...prev, currentX: Math.max(0, Math.min(currentX, timelineWidth)) });
+        };
+
+        const handleGlobalMouseUp = () => {
+            // A press without dragging is a plain click on the track
+            if (Math.abs(marquee.currentX - marquee.startX) > 3) {
+                selectSubtitlesInRange(marquee.startX / pixelsPerSecond, marquee.currentX / pixelsPerSecond, marquee.additive);
+                suppressClickRef.current = true;
+            }
+            setMarquee(null);
+        };
+
+        window.addEventListener('mousemove', handleGlobalMouseMove);
+        window.addEventListener('mouseup', handleGlobalMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleGlobalMouseMove);
+            window.removeEventListener('mouseup', handleGlobalMouseUp);
+        };
+    }, [marquee, pixelsPerSecond, timelineWidth, selectSubtitlesInRange]);
+
+    // True once for the click that ends a drag or marquee
+    const consumeSuppressedClick = () => {
+        const suppressed = suppressClickRef.current;
+        suppressClickRef.current = false;
+        return suppressed;
+    };
 
     // Min and max zoom levels
     const MIN_ZOOM = 10; // 10px per second
     const MAX_ZOOM = 200; // 200px per second
     
-    const transcribeMutation = api.video.transcribe.useMutation({
-        onSuccess: (data: TranscriptionSegmentFromBackend[]) => {
+    const transcription = useTranscriptionJob({
+        videoAssetId: videoAssetId ?? null,
+        onCompleted: (data: TranscriptionSegmentFromBackend[], dialectData: TranscriptionSegmentFromBackend[] | null) => {
             console.log('Transcription successful:', data);
             // Generate unique IDs for each subtitle segment
-            const newSubtitles: Subtitle[] = data.map((segment, index) => ({
+            const toSubtitles = (segments: TranscriptionSegmentFromBackend[]): Subtitle[] => segments.map((segment, index) => ({
                 id: `sub-${Date.now()}-${index}`,
                 text: segment.text,
                 start: segment.start,
                 end: segment.end,
-                words: segment.words // Pass the words array directly
+                words: segment.words, // Pass the words array directly
+                confidence: segment.confidence,
+                speaker: segment.speaker
             }));
-            addSubtitles(newSubtitles);
+            addSubtitles(toSubtitles(data));
+            if (dialectData) {
+                onDialectTranscription?.(toSubtitles(dialectData));
+            }
         },
-        onError: (error) => {
-            console.error('Transcription failed:', error);
-            // Here you might want to show an error message to the user
+        onAudioExtractionFailed: () => {
+            console.warn('Server could not extract the audio, extracting it in the browser instead');
+            transcribeWithBrowserAudio().catch((error) => {
+                console.error('Browser audio extraction failed:', error instanceof Error ? error.message : String(error));
+            });
         },
     });
 
@@ -399,51 +526,508 @@ export function SubtitleTimeline({
         onSeek(Math.max(0, Math.min(seekTime, duration)));
     };
 
+    // Fallback for videos without an upload or that the server could not read:
+    // decode the audio in the browser and upload it as WAV
+    const transcribeWithBrowserAudio = async () => {
+        if (!videoUrl) return;
+        // Fetch the video file from the URL
+        const response = await fetch(videoUrl);
+        const videoBlob = await response.blob();
+        const originalVideoArrayBuffer = await videoBlob.arrayBuffer();
+
+        // Process video to 16kHz WAV ArrayBuffer using client-side functions
+        const wavAudioArrayBuffer = await extractCompressedAudioFromVideo(originalVideoArrayBuffer);
+
+        // Upload the WAV audio to the streaming upload route
+        const audioAsset = await uploadAsset(
+            new Blob([wavAudioArrayBuffer], { type: 'audio/wav' }),
+            { fileName: 'audio.wav' }
+        );
+
+        // Queue the transcription of the uploaded audio
+        await transcription.start({
+            audioAssetId: audioAsset.assetId,
+            projectId: useSubtitleStore.getState().projectId ?? undefined,
+            outputLanguage,
+            speakerCount: speakerCount ?? undefined
+        });
+    };
+
     const handleTranscribe = async () => {
-        if (!videoUrl || transcribeMutation.status === 'pending') return;
+        if (!videoUrl || transcription.isRunning) return;
 
         try {
-            // Fetch the video file from the URL
-            const response = await fetch(videoUrl);
-            const videoBlob = await response.blob();
-            const originalVideoArrayBuffer = await videoBlob.arrayBuffer();
+            let videoAssetId: string | null = null;
+            try {
+                videoAssetId = getVideoAssetId ? await getVideoAssetId() : null;
+            } catch (error) {
+                console.warn('Video upload unavailable, extracting audio in the browser:', error);
+            }
 
-            // Process video to 16kHz WAV ArrayBuffer using client-side functions
-            const wavAudioArrayBuffer = await extractCompressedAudioFromVideo(originalVideoArrayBuffer);
+            if (videoAssetId) {
+                // The transcription worker extracts the audio with ffmpeg; if it can't,
+                // onAudioExtractionFailed falls back to the browser
+                await transcription.start({
+                    videoAssetId,
+                    audio: audioOptions,
+                    projectId: useSubtitleStore.getState().projectId ?? undefined,
+                    outputLanguage,
+                    speakerCount: speakerCount ?? undefined
+                });
+                return;
+            }
 
-            // Convert WAV ArrayBuffer to Base64 string
-            const wavAudioBase64 = arrayBufferToBase64(wavAudioArrayBuffer);
+            await transcribeWithBrowserAudio();
+        } catch (error) {
+            // Errors from starting the job are shown by the hook
+            // This catch is for errors during fetch, audio extraction or upload
+            console.error('Error in handleTranscribe:', error instanceof Error ? error.message : String(error));
+        }
+    };
 
-            // Get transcription using tRPC mutation
-            await transcribeMutation.mutateAsync({
-                videoBuffer: wavAudioBase64 // Send Base64 encoded WAV audio
-            });
+    // Reasons to check each transcribed cue, by subtitle ID
+    const confidenceIssues = useMemo(() => {
+        const issues = new Map<string, string[]>();
+        for (const sub of subtitles) {
+            const subIssues = getConfidenceIssues(sub);
+            if (subIssues.length > 0) issues.set(sub.id, subIssues);
+        }
+        return issues;
+    }, [subtitles]);
+
+    // Moves the playhead to a cue, selects it and scrolls it into view
+    const revealCue = (sub: Subtitle) => {
+        onSeek(sub.start);
+        setSelectedSubtitleIds([sub.id]);
+        if (containerRef.current) {
+            containerRef.current.scrollLeft = Math.max(0, sub.start * pixelsPerSecond - containerRef.current.clientWidth / 3);
+        }
+    };
+
+    // Close the cue menu on any click elsewhere or Escape
+    useEffect(() => {
+        if (!contextMenu) return;
+        const close = () => setContextMenu(null);
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') close();
+        };
+        window.addEventListener('click', close);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('click', close);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [contextMenu]);
+
+    // Jumps to the next low-confidence cue after the playhead
+    const handleNextUncertainCue = () => {
+        // Small margin so the cue the playhead was just moved to is skipped
+        const next = findNextLowConfidence(subtitles, currentTime + 0.05);
+        if (next) revealCue(next);
+    };
+
+    // Swiss orthography for the selected cues, or all cues if none is selected
+    const handleNormalizeOrthography = () => {
+        const selected = new Set(selectedSubtitleIds);
+        const targets = selected.size > 0 ? subtitles.filter(sub => selected.has(sub.id)) : subtitles;
+        const updates = targets.flatMap(sub => {
+            const changes = normalizeSwissSubtitle(sub);
+            return changes ? [{ id: sub.id, changes }] : [];
+        });
+        updateSubtitles(updates);
+        setOrthographyResult(updates.length > 0
+            ? `Swiss orthography: ${updates.length} of ${targets.length} subtitle(s) changed.`
+            : `Swiss orthography: all ${targets.length} subtitle(s) already follow it.`);
+    };
+
+    // Splits and merges the selected cues, or all cues, to the re-segmentation targets as one undo step
+    const handleResegment = () => {
+        const targetIds = selectedSubtitleIds.length > 0 ? new Set(selectedSubtitleIds) : null;
+        const result = resegmentSubtitles(subtitles, targetIds, resegmentOptions);
+        if (result.replacedCount === 0) {
+            setResegmentResult('All cues already meet the targets.');
+            return;
+        }
+        replaceSubtitles(result.subtitles);
+        if (targetIds) {
+            // Keep the re-segmented cues selected
+            const previousIds = new Set(subtitles.map(sub => sub.id));
+            setSelectedSubtitleIds(result.subtitles
+                .filter(sub => targetIds.has(sub.id) || !previousIds.has(sub.id))
+                .map(sub => sub.id));
+        }
+        setResegmentResult(`${result.replacedCount} cue(s) re-segmented into ${result.subtitles.length - subtitles.length + result.replacedCount}.`);
+    };
+
+    const handleImportFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow picking the same file again
+        if (!file) return;
 
+        setImportError(null);
+        try {
+            const content = await file.text();
+            const result = parseSubtitleFile(file.name, content);
+            if (result.issues.length > 0) {
+                console.warn(`Subtitle import: ${result.issues.length} malformed cue(s) in ${file.name}`, result.issues);
+            }
+            setPendingImport({ ...result, fileName: file.name });
         } catch (error) {
-            // Errors from mutateAsync are handled by onError in useMutation options
-            // This catch is for errors during fetch, blob, or arrayBuffer conversion
-            console.error('Error in handleTranscribe before mutation call:', error instanceof Error ? error.message : String(error));
+            console.error('Subtitle import failed:', error);
+            setImportError(error instanceof Error ? error.message : String(error));
+            setPendingImport(null);
         }
     };
 
+    const handleConfirmImport = (mode: 'replace' | 'merge') => {
+        if (!pendingImport) return;
+        if (mode === 'replace') {
+            replaceSubtitles(pendingImport.subtitles);
+        } else {
+            addSubtitles(pendingImport.subtitles);
+        }
+        setPendingImport(null);
+    };
+
     return (
         <div className="w-full bg-[#252526] overflow-hidden select-none border-t border-gray-700">
-            {/* Add transcribe button */}
-            <div className="absolute top-2 right-2 z-40">
-                <button
-                    onClick={handleTranscribe}
-                    disabled={transcribeMutation.status === 'pending' || !videoUrl}
-                    className={`p-2 rounded-full ${
-                        transcribeMutation.status === 'pending' 
-                            ? 'bg-gray-600 cursor-not-allowed' 
-                            : 'bg-teal-600 hover:bg-teal-500'
-                    } transition-colors`}
-                    title={transcribeMutation.status === 'pending' ? 'Transcribing...' : 'Transcribe video'}
-                >
-                    <Mic size={16} className={transcribeMutation.status === 'pending' ? 'animate-pulse' : ''} />
-                </button>
+            {/* Add transcribe / import buttons */}
+            <div className="absolute top-2 right-2 z-40 flex flex-col items-end gap-2">
+                <div className="flex gap-2">
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".srt,.vtt,.ass,.ssa"
+                        className="hidden"
+                        onChange={handleImportFileChange}
+                    />
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="p-2 rounded-full bg-gray-600 hover:bg-gray-500 transition-colors"
+                        title="Import subtitle file (SRT, WebVTT, ASS)"
+                    >
+                        <FileUp size={16} />
+                    </button>
+                    <button
+                        onClick={handleNextUncertainCue}
+                        disabled={confidenceIssues.size === 0}
+                        className={`p-2 rounded-full ${confidenceIssues.size > 0 ? 'bg-amber-600 hover:bg-amber-500' : 'bg-gray-600'} disabled:opacity-50 transition-colors`}
+                        title={confidenceIssues.size > 0
+                            ? `Next uncertain cue (${confidenceIssues.size} to check)`
+                            : 'No uncertain cues'}
+                    >
+                        <ScanSearch size={16} />
+                    </button>
+                    <button
+                        onClick={() => setShowLint(open => !open)}
+                        className={`p-2 rounded-full ${showLint ? 'bg-gray-500' : 'bg-gray-600 hover:bg-gray-500'} transition-colors`}
+                        title="Check subtitle quality"
+                    >
+                        <ListChecks size={16} />
+                    </button>
+                    <button
+                        onClick={handleNormalizeOrthography}
+                        disabled={subtitles.length === 0}
+                        className="p-2 rounded-full bg-gray-600 hover:bg-gray-500 disabled:opacity-50 transition-colors"
+                        title={selectedSubtitleIds.length > 0
+                            ? `Swiss orthography for ${selectedSubtitleIds.length} selected subtitle(s) (ß → ss, «quotes», 1'000, CHF)`
+                            : "Swiss orthography for all subtitles (ß → ss, «quotes», 1'000, CHF)"}
+                    >
+                        <SpellCheck size={16} />
+                    </button>
+                    <button
+                        onClick={() => {
+                            setShowResegment(open => !open);
+                            setResegmentResult(null);
+                        }}
+                        disabled={subtitles.length === 0}
+                        className={`p-2 rounded-full ${showResegment ? 'bg-gray-500' : 'bg-gray-600 hover:bg-gray-500'} disabled:opacity-50 transition-colors`}
+                        title="Re-segment by line length and reading speed"
+                    >
+                        <WrapText size={16} />
+                    </button>
+                    <button
+                        onClick={() => setShowAudioOptions(open => !open)}
+                        className={`p-2 rounded-full ${showAudioOptions ? 'bg-gray-500' : 'bg-gray-600 hover:bg-gray-500'} transition-colors`}
+                        title="Transcription settings"
+                    >
+                        <SlidersHorizontal size={16} />
+                    </button>
+                    <button
+                        onClick={handleTranscribe}
+                        disabled={transcription.isRunning || !videoUrl}
+                        className={`p-2 rounded-full ${
+                            transcription.isRunning
+                                ? 'bg-gray-600 cursor-not-allowed' 
+                                : 'bg-teal-600 hover:bg-teal-500'
+                        } transition-colors`}
+                        title={transcription.isRunning ? 'Transcribing...' : 'Transcribe video'}
+                    >
+                        <Mic size={16} className={transcription.isRunning ? 'animate-pulse' : ''} />
+                    </button>
+                </div>
+
+                <SubtitleBatchBar />
+
+                {/* Background transcription status */}
+                {(transcription.isRunning || transcription.error) && (
+                    <div className="px-3 py-2 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs">
+                        {transcription.error ? (
+                            <p className="flex items-center text-red-300">
+                                <AlertTriangle className="inline mr-2 shrink-0" size={14} />Transcription failed: {transcription.error}
+                            </p>
+                        ) : transcription.isWaiting || !transcription.progress ? (
+                            <p>Transcription queued…</p>
+                        ) : transcription.progress.stage === 'extracting' ? (
+                            <p>Extracting audio…</p>
+                        ) : transcription.progress.stage === 'diarizing' ? (
+                            <p>Detecting speakers…</p>
+                        ) : transcription.progress.stage === 'rewriting' ? (
+                            <p>Rewriting into Standard German… ({transcription.progress.percent}%)</p>
+                        ) : (
+                            <p>
+                                Transcribing…{' '}
+                                {transcription.progress.totalChunks
+                                    ? `${transcription.progress.completedChunks}/${transcription.progress.totalChunks} chunks `
+                                    : ''}
+                                ({transcription.progress.percent}%)
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* Subtitle language, and audio settings used when the server extracts the audio */}
+                {showAudioOptions && (
+                    <div className="w-64 p-3 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs flex flex-col gap-2">
+                        <label className="flex items-center justify-between gap-2">
+                            Subtitles in
+                            <select
+                                value={outputLanguage}
+                                onChange={(e) => setOutputLanguage(e.target.value as TranscriptionOutputLanguage)}
+                                className="bg-[#252526] border border-white/10 rounded px-1 py-0.5"
+                            >
+                                <option value="gsw">Swiss German (dialect)</option>
+                                <option value="deu">Standard German</option>
+                            </select>
+                        </label>
+                        {outputLanguage === 'deu' && (
+                            <p className="text-white/60">The dialect original is kept as a second track of the project.</p>
+                        )}
+                        <label className="flex items-center justify-between gap-2">
+                            Speakers
+                            <select
+                                value={speakerCount ?? 'off'}
+                                onChange={(e) => setSpeakerCount(e.target.value === 'off' ? null : Number(e.target.value))}
+                                className="bg-[#252526] border border-white/10 rounded px-1 py-0.5"
+                            >
+                                <option value="off">Don&apos;t detect</option>
+                                <option value="2">Detect 2 speakers</option>
+                                <option value="3">Detect 3 speakers</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            Audio channel
+                            <select
+                                value={String(audioOptions.channel)}
+                                onChange={(e) => setAudioOptions(prev => ({
+                                    ...prev,
+                                    channel: e.target.value === 'mix' ? 'mix' : Number(e.target.value),
+                                }))}
+                                className="bg-[#252526] border border-white/10 rounded px-1 py-0.5"
+                            >
+                                <option value="mix">Mix all channels</option>
+                                {Array.from({ length: AUDIO_CHANNEL_CHOICES }, (_, channel) => (
+                                    <option key={channel} value={channel}>Channel {channel + 1}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={audioOptions.normalizeLoudness}
+                                onChange={(e) => setAudioOptions(prev => ({ ...prev, normalizeLoudness: e.target.checked }))}
+                            />
+                            Normalize loudness (quiet or uneven recordings)
+                        </label>
+                    </div>
+                )}
+
+                {/* Quality checks against a subtitle profile */}
+                {showLint && (
+                    <SubtitleLintPanel videoDuration={duration} textLayout={textLayout} onRevealCue={revealCue} />
+                )}
+
+                {/* Re-segmentation targets */}
+                {showResegment && (
+                    <div className="w-72 p-3 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs flex flex-col gap-2">
+                        {RESEGMENT_FIELDS.map(field => (
+                            <label key={field.key} className="flex items-center justify-between gap-2">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    step={field.step}
+                                    value={resegmentOptions[field.key]}
+                                    onChange={(e) => {
+                                        const value = Number(e.target.value);
+                                        if (Number.isFinite(value) && value >= field.min) {
+                                            setResegmentOptions(prev => ({ ...prev, [field.key]: value }));
+                                        }
+                                    }}
+                                    className="w-16 bg-[#252526] border border-white/10 rounded px-1 py-0.5 text-right"
+                                />
+                            </label>
+                        ))}
+                        <p className="text-white/60">
+                            Splits long cues and merges short ones, preferably at punctuation and pauses.
+                        </p>
+                        {resegmentResult && <p className="text-teal-300">{resegmentResult}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setResegmentOptions(DEFAULT_RESEGMENT_OPTIONS)}
+                                className="px-2 py-1 rounded text-white/70 hover:bg-white/10"
+                            >
+                                Defaults
+                            </button>
+                            <button
+                                onClick={handleResegment}
+                                disabled={subtitles.length === 0}
+                                className="px-2 py-1 rounded bg-teal-600 hover:bg-teal-500 disabled:opacity-50"
+                            >
+                                {selectedSubtitleIds.length > 0
+                                    ? `Re-segment ${selectedSubtitleIds.length} selected`
+                                    : 'Re-segment all'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {orthographyResult && (
+                    <div className="px-3 py-2 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs flex items-center gap-3">
+                        <span className="text-teal-300">{orthographyResult}</span>
+                        <button
+                            onClick={() => setOrthographyResult(null)}
+                            className="px-2 py-1 rounded text-white/70 hover:bg-white/10"
+                        >
+                            Dismiss
+                        </button>
+                    </div>
+                )}
+
+                {/* Import result: report malformed cues and ask how to apply the file */}
+                {(pendingImport ?? importError) && (
+                    <div className="w-80 p-3 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs select-text">
+                        {importError && (
+                            <p className="flex items-center text-red-300">
+                                <AlertTriangle className="inline mr-2 shrink-0" size={14} />{importError}
+                            </p>
+                        )}
+                        {pendingImport && (
+                            <>
+                                <p className="mb-2">
+                                    <span className="font-semibold">{pendingImport.fileName}</span>: {pendingImport.subtitles.length} cue(s) found
+                                </p>
+                                {pendingImport.issues.length > 0 && (
+                                    <div className="mb-2 text-amber-300">
+                                        <p className="flex items-center mb-1">
+                                            <AlertTriangle className="inline mr-2 shrink-0" size={14} />
+                                            {pendingImport.issues.length} malformed cue(s) skipped:
+                                        </p>
+                                        <ul className="max-h-32 overflow-y-auto pl-5 list-disc">
+                                            {pendingImport.issues.slice(0, MAX_LISTED_IMPORT_ISSUES).map((issue, index) => (
+                                                <li key={index}>Line {issue.line}: {issue.message}</li>
+                                            ))}
+                                        </ul>
+                                        {pendingImport.issues.length > MAX_LISTED_IMPORT_ISSUES && (
+                                            <p className="mt-1 text-white/50">
+                                                …and {pendingImport.issues.length - MAX_LISTED_IMPORT_ISSUES} more (see console)
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => setPendingImport(null)}
+                                        className="px-2 py-1 rounded text-white/70 hover:bg-white/10"
+                                    >
+                                        Cancel
+                                    </button>
+                                    {subtitles.length > 0 && (
+                                        <button
+                                            onClick={() => handleConfirmImport('merge')}
+                                            disabled={pendingImport.subtitles.length === 0}
+                                            className="px-2 py-1 rounded bg-gray-600 hover:bg-gray-500 disabled:opacity-50"
+                                        >
+                                            Merge
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleConfirmImport('replace')}
+                                        disabled={pendingImport.subtitles.length === 0}
+                                        className="px-2 py-1 rounded bg-teal-600 hover:bg-teal-500 disabled:opacity-50"
+                                    >
+                                        {subtitles.length > 0 ? 'Replace' : 'Import'}
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                        {importError && !pendingImport && (
+                            <div className="flex justify-end mt-2">
+                                <button
+                                    onClick={() => setImportError(null)}
+                                    className="px-2 py-1 rounded text-white/70 hover:bg-white/10"
+                                >
+                                    Dismiss
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
+            {/* Cue context menu */}
+            {contextMenu && (() => {
+                const index = subtitles.findIndex(sub => sub.id === contextMenu.subtitleId);
+                const cue = subtitles[index];
+                if (!cue) return null;
+                const canSplit = cue.start < currentTime && currentTime < cue.end;
+                const items = [
+                    {
+                        label: 'Split at playhead',
+                        shortcut: 'S',
+                        disabled: !canSplit,
+                        action: () => {
+                            const secondId = splitSubtitle(cue.id, currentTime);
+                            if (secondId) setSelectedSubtitleIds([secondId]);
+                        },
+                    },
+                    { label: 'Merge with previous', shortcut: 'Shift+M', disabled: index === 0, action: () => mergeSubtitle(cue.id, 'previous') },
+                    { label: 'Merge with next', shortcut: 'M', disabled: index === subtitles.length - 1, action: () => mergeSubtitle(cue.id, 'next') },
+                ];
+                return (
+                    <div
+                        className="fixed z-50 min-w-48 py-1 rounded-md shadow-lg border border-white/10 bg-[#1e1e1e] text-white text-xs"
+                        style={{ left: contextMenu.x, top: contextMenu.y }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {items.map(item => (
+                            <button
+                                key={item.label}
+                                disabled={item.disabled}
+                                onClick={() => {
+                                    item.action();
+                                    setContextMenu(null);
+                                }}
+                                className="flex w-full items-center justify-between gap-4 px-3 py-1.5 text-left hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+                            >
+                                {item.label}
+                                <span className="text-white/40">{item.shortcut}</span>
+                            </button>
+                        ))}
+                    </div>
+                );
+            })()}
+
             {/* Timeline container with horizontal scroll */}
             <div 
                 ref={containerRef}
@@ -482,10 +1066,35 @@ export function SubtitleTimeline({
                     {/* Content Area with Tracks */}
                     <div className="relative w-full flex-grow">
                         {/* Subtitle track */}
-                        <div className="absolute top-0 left-0 right-0 h-16 bg-[#2a2a2c] rounded mx-1 border-b border-gray-700 overflow-hidden">
+                        <div
+                            ref={trackRef}
+                            className="absolute top-0 left-0 right-0 h-16 bg-[#2a2a2c] rounded mx-1 border-b border-gray-700 overflow-hidden"
+                            onMouseDown={(event) => {
+                                // Pressing on empty track starts a marquee; Ctrl/Cmd/Shift adds to the selection
+                                if (event.button !== 0 || !trackRef.current) return;
+                                suppressClickRef.current = false;
+                                const startX = event.clientX - trackRef.current.getBoundingClientRect().left;
+                                setMarquee({ startX, currentX: startX, additive: event.ctrlKey || event.metaKey || event.shiftKey });
+                            }}
+                            onClick={() => {
+                                if (!consumeSuppressedClick()) setSelectedSubtitleIds([]);
+                            }}
+                        >
+                            {marquee && (
+                                <div
+                                    className="absolute top-0 h-full bg-blue-400/20 border border-blue-300 pointer-events-none z-10"
+                                    style={{
+                                        left: `${Math.min(marquee.startX, marquee.currentX)}px`,
+                                        width: `${Math.abs(marquee.currentX - marquee.startX)}px`,
+                                    }}
+                                />
+                            )}
                             {subtitles.map((segment) => {
-                                const left = segment.start * pixelsPerSecond;
+                                const isMoving = activeDrag?.mode === 'move' && activeDrag.ids.includes(segment.id);
+                                const left = (segment.start + (isMoving ? moveOffset : 0)) * pixelsPerSecond;
                                 const width = (segment.end - segment.start) * pixelsPerSecond;
+                                const isSelected = selectedSubtitleIds.includes(segment.id);
+                                const issues = confidenceIssues.get(segment.id);
 
                                 const handleMouseDownOnSegment = (
                                     event: React.MouseEvent<HTMLDivElement>,
@@ -496,21 +1105,59 @@ export function SubtitleTimeline({
                                     setActiveDrag({
                                         id: segment.id,
                                         mode,
+                                        ids: [segment.id],
                                         initialMouseX: event.clientX,
                                         originalStart: segment.start,
                                         originalEnd: segment.end,
                                     });
                                 };
 
+                                // Dragging a cue moves it, or all selected cues if it is one of them
+                                const handleMouseDownOnBody = (event: React.MouseEvent<HTMLDivElement>) => {
+                                    event.stopPropagation(); // Don't start a marquee
+                                    suppressClickRef.current = false;
+                                    if (event.button !== 0 || event.ctrlKey || event.metaKey || event.shiftKey) return;
+                                    if (!isSelected) selectSubtitle(segment.id, 'replace');
+                                    const moved = subtitles.filter(sub => isSelected ? selectedSubtitleIds.includes(sub.id) : sub.id === segment.id);
+                                    setActiveDrag({
+                                        id: segment.id,
+                                        mode: 'move',
+                                        ids: moved.map(sub => sub.id),
+                                        initialMouseX: event.clientX,
+                                        originalStart: Math.min(...moved.map(sub => sub.start)),
+                                        originalEnd: Math.max(...moved.map(sub => sub.end)),
+                                    });
+                                };
+
+                                // Click selects the cue; Shift-click selects the range from the last clicked cue, Ctrl/Cmd-click adds or removes it
+                                const handleSelectSegment = (event: React.MouseEvent<HTMLDivElement>) => {
+                                    event.stopPropagation();
+                                    if (consumeSuppressedClick()) return;
+                                    selectSubtitle(segment.id, event.shiftKey ? 'range' : event.ctrlKey || event.metaKey ? 'toggle' : 'replace');
+                                };
+
                                 return (
                                     <div
                                         key={segment.id}
-                                        className="absolute top-1/2 -translate-y-1/2 h-12 bg-blue-500/30 border border-blue-400 rounded p-1 flex items-center justify-center group"
+                                        className={`absolute top-1/2 -translate-y-1/2 h-12 border rounded p-1 flex items-center justify-center group ${
+                                            isSelected
+                                                ? `bg-blue-500/60 ${issues ? 'border-amber-300' : 'border-white'}`
+                                                : issues ? 'bg-amber-500/30 border-amber-400 border-dashed' : 'bg-blue-500/30 border-blue-400'
+                                        }`}
+                                        onMouseDown={handleMouseDownOnBody}
+                                        onClick={handleSelectSegment}
+                                        onContextMenu={(event) => {
+                                            event.preventDefault();
+                                            if (!isSelected) selectSubtitle(segment.id, 'replace');
+                                            setContextMenu({ subtitleId: segment.id, x: event.clientX, y: event.clientY });
+                                        }}
                                         style={{
                                             left: `${left}px`,
                                             width: `${Math.max(width, 1)}px`, // Ensure a minimum width for visibility
                                         }}
-                                        title={`[${formatTimeRuler(segment.start)} - ${formatTimeRuler(segment.end)}] ${segment.text}`}
+                                        title={`[${formatTimeRuler(segment.start)} - ${formatTimeRuler(segment.end)}] ${segment.text}${
+                                            issues ? `\nCheck: ${issues.join('; ')}` : ''
+                                        }`}
                                     >
                                         {/* Resize handle at the start */}
                                         <div
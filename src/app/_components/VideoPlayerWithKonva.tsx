@@ -3,10 +3,23 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Stage, Layer, Rect, Text, Group } from 'react-konva'; // Import Konva components
 import Konva from 'konva'; // Import the Konva namespace for direct constructor use
-import { Play, Pause, Settings, Type, PaintBucket, Layout, Download, Loader2, AlertTriangle, CheckCircle2, VolumeX, Volume2, Undo2, Redo2 } from 'lucide-react'; // Added more icons and Undo2, Redo2
+import { Play, Pause, Settings, Type, PaintBucket, Layout, Download, Loader2, AlertTriangle, CheckCircle2, VolumeX, Volume2, Undo2, Redo2, Captions, Film, History, Users } from 'lucide-react'; // Added more icons and Undo2, Redo2
 import { SubtitleTimeline } from './SubtitleTimeline'; // Import the timeline component
-import { useSubtitleStore } from '~/store/subtitleStore'; // Import the subtitle store
+import { useSubtitleStore, type Subtitle } from '~/store/subtitleStore'; // Import the subtitle store
+import { alignWordsToText } from '~/utils/wordTiming';
+import { addSpeakerStyles, BG_COLOR_OPTIONS, FONT_SIZE_RANGE, resolveSubtitleStyle, TEXT_COLOR_OPTIONS } from '~/utils/subtitleStyle';
 import { api } from "~/trpc/react"; // Import tRPC API
+import { generateSrt } from '~/utils/generateSrt';
+import { generateVtt } from '~/utils/generateVtt';
+import { uploadAsset } from '~/utils/uploadAsset';
+import { useProjectSync } from '~/utils/useProjectSync';
+import { useSessionAutosave } from '~/utils/useSessionAutosave';
+import { getAssetVideoKey, getFileVideoKey } from '~/utils/sessionPersistence';
+import { ProjectBar } from './ProjectBar';
+import { GlossaryPanel } from './GlossaryPanel';
+import { SpeakerPanel } from './SpeakerPanel';
+import { useRouter, useSearchParams } from 'next/navigation';
+import type { UploadedAsset } from '~/server/lib/uploads';
 
 // Define subtitle style options
 export interface SubtitleStyle {
@@ -20,6 +33,16 @@ export interface SubtitleStyle {
   customX?: number; // Optional custom X position
   customY?: number; // Optional custom Y position
   effectType?: 'none' | 'cumulativePopOn' | 'wordByWord'; // Optional effect type for word-by-word animations
+  speakers?: Record<string, SpeakerStyle>; // Per-speaker overrides, keyed by Subtitle.speaker
+}
+
+// Display name and optional colour/position of one speaker; unset fields use the main style
+export interface SpeakerStyle {
+  name: string;
+  textColor?: string;
+  position?: SubtitleStyle['position'];
+  customX?: number;
+  customY?: number;
 }
 
 // Define an interface for the expected job status response
@@ -32,7 +55,9 @@ interface JobStatusResponse {
   isCompleted: boolean;
   isFailed: boolean;
   progress: number | object | null;
-  returnValue: string | null; // Expecting Base64 string for video
+  downloadUrl: string | null; // Served by /api/exports/[jobId] once completed
+  fileName: string | null;
+  expiresAt: string | null;
   failedReason: string | null;
   timestamp: number | null;
   processedOn: number | null;
@@ -51,37 +76,6 @@ const FONT_OPTIONS = [
   { id: 'verdana', name: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
 ];
 
-// Define font size range
-const FONT_SIZE_RANGE = {
-  min: 12,
-  max: 36,
-  step: 1
-};
-
-// Define text color options
-const TEXT_COLOR_OPTIONS = [
-  { id: 'white', name: 'White', value: '#FFFFFF' },
-  { id: 'yellow', name: 'Yellow', value: '#FFFF00' },
-  { id: 'cyan', name: 'Cyan', value: '#00FFFF' },
-  { id: 'lime', name: 'Lime', value: '#CCFF00' },
-  { id: 'pink', name: 'Pink', value: '#FF66CC' },
-  { id: 'orange', name: 'Orange', value: '#FF9900' },
-  { id: 'red', name: 'Red', value: '#FF0000' },
-  { id: 'black', name: 'Black', value: '#000000' },
-];
-
-// Define background color options
-const BG_COLOR_OPTIONS = [
-  { id: 'black', name: 'Black', value: '#000000' },
-  { id: 'darkgray', name: 'Dark Gray', value: '#333333' },
-  { id: 'blue', name: 'Blue', value: '#0000CC' },
-  { id: 'purple', name: 'Purple', value: '#6600CC' },
-  { id: 'red', name: 'Red', value: '#CC0000' },
-  { id: 'green', name: 'Green', value: '#006600' },
-  { id: 'teal', name: 'Teal', value: '#008888' },
-  { id: 'none', name: 'None', value: 'transparent' },
-];
-
 // Define opacity range
 const OPACITY_RANGE = {
   min: 0,
@@ -123,6 +117,61 @@ const DEFAULT_STYLE: SubtitleStyle = {
   effectType: 'none', // Default to no effect
 };
 
+// Options for how the video export delivers the subtitles
+export interface ExportOptions {
+  mode: 'burnIn' | 'softSubs'; // Burn into the picture or mux as a subtitle track
+  container: 'mp4' | 'mkv';
+  subtitleFormat: 'vtt' | 'ass'; // Track format for MKV (MP4 always uses mov_text)
+  language: string; // ISO 639-2 code
+  renderer: 'png' | 'ass'; // Burn-in renderer
+}
+
+const EXPORT_MODE_OPTIONS = [
+  { id: 'burnIn', name: 'Burn in', description: 'Re-encodes the video with the subtitles drawn in', value: 'burnIn' as const },
+  { id: 'softSubs', name: 'Subtitle track', description: 'Copies the video and adds a switchable track (fast, no quality loss)', value: 'softSubs' as const },
+];
+
+const RENDERER_OPTIONS = [
+  { id: 'png', name: 'PNG overlays', description: 'Matches the preview box exactly', value: 'png' as const },
+  { id: 'ass', name: 'libass', description: 'Single pass, much faster on long videos', value: 'ass' as const },
+];
+
+const CONTAINER_OPTIONS = [
+  { id: 'mp4', name: 'MP4 (mov_text)', value: 'mp4' as const },
+  { id: 'mkv', name: 'MKV', value: 'mkv' as const },
+];
+
+const SUBTITLE_TRACK_FORMAT_OPTIONS = [
+  { id: 'vtt', name: 'WebVTT', value: 'vtt' as const },
+  { id: 'ass', name: 'ASS (keeps styling)', value: 'ass' as const },
+];
+
+const SUBTITLE_LANGUAGE_OPTIONS = [
+  { id: 'gsw', name: 'Schweizerdeutsch (gsw)' },
+  { id: 'deu', name: 'Deutsch (deu)' },
+  { id: 'fra', name: 'Français (fra)' },
+  { id: 'ita', name: 'Italiano (ita)' },
+  { id: 'roh', name: 'Rumantsch (roh)' },
+  { id: 'eng', name: 'English (eng)' },
+];
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  mode: 'burnIn',
+  container: 'mp4',
+  subtitleFormat: 'vtt',
+  language: 'gsw',
+  renderer: 'png',
+};
+
+// Define sidecar subtitle download options
+const SUBTITLE_DOWNLOAD_OPTIONS = [
+  { id: 'srt', name: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', name: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'vtt-words', name: 'WebVTT (word timing)', extension: 'vtt', mimeType: 'text/vtt' },
+] as const;
+
+type SubtitleDownloadFormat = typeof SUBTITLE_DOWNLOAD_OPTIONS[number]['id'];
+
 // Helper function to format time
 const formatTime = (timeInSeconds: number): string => {
   const minutes = Math.floor(timeInSeconds / 60);
@@ -143,7 +192,9 @@ export function VideoPlayerWithKonva() {
   // Subtitle style state
   const [currentStyle, setCurrentStyle] = useState<SubtitleStyle>(DEFAULT_STYLE);
   const [showStyleSettings, setShowStyleSettings] = useState<boolean>(false);
-  const [activeStyleTab, setActiveStyleTab] = useState<'font' | 'color' | 'position'>('font');
+  const [showSubtitleDownloadMenu, setShowSubtitleDownloadMenu] = useState<boolean>(false);
+  const [activeStyleTab, setActiveStyleTab] = useState<'font' | 'color' | 'position' | 'speakers' | 'export'>('font');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
 
   // Video file reference for export
   const [videoFile, setVideoFile] = useState<File | null>(null);
@@ -152,9 +203,13 @@ export function VideoPlayerWithKonva() {
   const [exportJobId, setExportJobId] = useState<string | null>(null);
   const [exportStatus, setExportStatus] = useState<string | null>(null); // e.g., 'processing', 'completed', 'failed'
   const [exportProgress, setExportProgress] = useState<number | object | null>(null);
-  const [exportResult, setExportResult] = useState<string | null>(null); // Base64 video data
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Uploaded copy of the current video, used for exports and by the project
+  const [videoAsset, setVideoAsset] = useState<{ assetId: string; fileName: string } | null>(null);
+  const videoUploadRef = useRef<Promise<UploadedAsset> | null>(null);
+  const [exportResult, setExportResult] = useState<{ downloadUrl: string; fileName: string | null } | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
 
   const subtitles = useSubtitleStore((state) => state.subtitles);
   const updateSubtitleText = useSubtitleStore((state) => state.updateSubtitle); // Get update function
@@ -166,6 +221,35 @@ export function VideoPlayerWithKonva() {
   // tRPC mutation for starting the export
   const exportVideoMutation = api.video.exportWithSubs.useMutation();
 
+  // The open project is part of the URL so a reload brings it back
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const projectId = searchParams.get('project');
+  const { project, saveState, startProject, leaveProject, saveStyle, selectTrack, saveDialectTrack } = useProjectSync(projectId);
+  const trackId = useSubtitleStore((state) => state.trackId);
+  const createProjectMutation = api.project.create.useMutation();
+  const attachVideoMutation = api.project.attachVideo.useMutation();
+  const utils = api.useUtils();
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+
+  // Autosave of the editor session; a picked file is known by its file key first, then also by its upload
+  const videoKeys = [
+    ...(videoFile ? [getFileVideoKey(videoFile)] : []),
+    ...(videoAsset ? [getAssetVideoKey(videoAsset.assetId)] : []),
+  ];
+  const { pendingSession, restorePendingSession, discardPendingSession } = useSessionAutosave({
+    videoKeys,
+    videoName: videoFile?.name ?? videoAsset?.fileName ?? null,
+    style: currentStyle,
+  });
+
+  const handleRestoreSession = () => {
+    const restoredStyle = restorePendingSession();
+    if (restoredStyle) {
+      setCurrentStyle(restoredStyle);
+    }
+  };
+
   // tRPC query for polling job status
 const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatus.useQuery(
   exportJobId ? { jobId: exportJobId } : ({ jobId: '""' } as { jobId: string }), // Use a valid but empty string to satisfy type, query is disabled anyway
@@ -189,12 +273,12 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     if (data) {
       setExportStatus(data.status ?? null);
       setExportProgress(data.progress ?? null);
-      if (data.isCompleted && typeof data.returnValue === 'string') {
-        setExportResult(data.returnValue);
+      if (data.isCompleted && data.downloadUrl) {
+        setExportResult({ downloadUrl: data.downloadUrl, fileName: data.fileName });
         setExportJobId(null);
-      } else if (data.isCompleted && data.returnValue !== null) {
-        // Handle cases where returnValue is not a string but job is complete (e.g. error object or unexpected type)
-        console.warn('Export job completed but returnValue is not a string:', data.returnValue);
+      } else if (data.isCompleted) {
+        // Handle cases where the job is complete but did not report a render
+        console.warn('Export job completed without a download URL:', data);
         setExportError('Export completed with unexpected result type.');
         setExportJobId(null);
       } else if (data.isFailed) {
@@ -204,26 +288,6 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     }
   }, [jobStatusData]);
 
-  // Convert base64 export result to Blob URL to prevent freezing on download
-  useEffect(() => {
-    if (!exportResult) {
-      return;
-    }
-    // Decode base64 to binary data
-    const binary = atob(exportResult);
-    const len = binary.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    // Create Blob and object URL
-    const blob = new Blob([bytes], { type: 'video/mp4' });
-    const url = URL.createObjectURL(blob);
-    setDownloadUrl(url);
-    // Cleanup previous URL on change or unmount
-    return () => { URL.revokeObjectURL(url); };
-  }, [exportResult]);
-
   // State for inline editing of subtitles on the video
   const [editingSubtitle, setEditingSubtitle] = useState<{
     id: string;
@@ -266,10 +330,36 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     }
   }, []);
 
-  // Save style to localStorage whenever it changes
+  // Save style to localStorage (default for new projects) and the project whenever it changes
   useEffect(() => {
     localStorage.setItem('subtitleStyle', JSON.stringify(currentStyle));
-  }, [currentStyle]);
+    saveStyle(currentStyle);
+  }, [currentStyle, saveStyle]);
+
+  // Give speakers from transcription or a loaded project their own colour
+  useEffect(() => {
+    const speakerIds = [...new Set(subtitles.flatMap(sub => (sub.speaker ? [sub.speaker] : [])))];
+    setCurrentStyle(prev => {
+      const speakers = addSpeakerStyles(prev.speakers, speakerIds);
+      return speakers ? { ...prev, speakers } : prev;
+    });
+  }, [subtitles]);
+
+  // Show the video and style of a loaded project
+  const loadedProjectIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!project || loadedProjectIdRef.current === project.id) return;
+    loadedProjectIdRef.current = project.id;
+    if (project.style) {
+      setCurrentStyle(project.style);
+    }
+    if (project.video && project.video.assetId !== videoAsset?.assetId) {
+      setVideoFile(null);
+      setVideoAsset({ assetId: project.video.assetId, fileName: project.video.fileName });
+      videoUploadRef.current = null;
+      setVideoUrl(`/api/assets/${project.video.assetId}`);
+    }
+  }, [project, videoAsset?.assetId]);
 
   // Update a single style property
   const updateStyleProperty = <K extends keyof SubtitleStyle>(
@@ -292,7 +382,23 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
 
   const handleEditSave = () => {
     if (editingSubtitle) {
-      updateSubtitleText(editingSubtitle.id, { text: editingSubtitle.text });
+      const original = subtitles.find(sub => sub.id === editingSubtitle.id);
+      // An edited cue has been checked, so it is no longer flagged as uncertain
+      updateSubtitleText(
+        editingSubtitle.id,
+        original && original.text !== editingSubtitle.text
+          ? {
+              text: editingSubtitle.text,
+              confidence: undefined,
+              words: original.words && alignWordsToText(
+                editingSubtitle.text,
+                original.words.map(({ probability: _probability, ...word }) => word),
+                original.start,
+                original.end
+              ),
+            }
+          : { text: editingSubtitle.text }
+      );
       setEditingSubtitle(null);
     }
   };
@@ -306,22 +412,100 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     }
   };
 
+  // Clears the loaded video, e.g. when switching projects
+  const resetVideo = () => {
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+    }
+    setVideoUrl(null);
+    setVideoFile(null);
+    setVideoAsset(null);
+    videoUploadRef.current = null;
+    setUploadError(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+  };
+
+  // Uploads the video in the background and stores it in the current (or a new) project
+  const startVideoUpload = (file: File) => {
+    setUploadProgress(0);
+    setUploadError(null);
+    const upload = uploadAsset(file, { onProgress: setUploadProgress });
+    videoUploadRef.current = upload;
+
+    upload
+      .then(async (asset) => {
+        if (videoUploadRef.current !== upload) return; // Another video was picked meanwhile
+        setVideoAsset({ assetId: asset.assetId, fileName: asset.fileName });
+
+        if (projectId) {
+          await attachVideoMutation.mutateAsync({ projectId, videoAssetId: asset.assetId });
+        } else {
+          const newProject = await createProjectMutation.mutateAsync({
+            name: file.name.replace(/\.[^.]+$/, '') || file.name,
+            videoAssetId: asset.assetId,
+            style: currentStyle,
+          });
+          loadedProjectIdRef.current = newProject.id;
+          startProject(newProject.id, newProject.trackId);
+          router.replace(`?project=${newProject.id}`);
+        }
+        await utils.project.list.invalidate();
+      })
+      .catch((error) => {
+        console.error('[startVideoUpload] Uploading the video failed:', error);
+        if (videoUploadRef.current === upload) {
+          // Allow another attempt, e.g. from export or transcription
+          videoUploadRef.current = null;
+          setUploadProgress(null);
+          setUploadError(error instanceof Error ? error.message : String(error));
+        }
+      })
+      .finally(() => {
+        if (videoUploadRef.current === upload) setUploadProgress(null);
+      });
+  };
+
+  // Resolves the asset ID of the current video, waiting for (or starting) its upload
+  const ensureVideoAssetId = async (): Promise<string> => {
+    if (videoAsset) return videoAsset.assetId;
+    if (!videoUploadRef.current && videoFile) {
+      startVideoUpload(videoFile);
+    }
+    if (!videoUploadRef.current) {
+      throw new Error('No video to upload');
+    }
+    const asset = await videoUploadRef.current;
+    return asset.assetId;
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
-        setIsPlaying(false);
-        setCurrentTime(0);
-        setDuration(0);
-      }
+      resetVideo();
       // Store the file object for export
       setVideoFile(file);
       const url = URL.createObjectURL(file);
       setVideoUrl(url);
+      startVideoUpload(file);
     }
   };
 
+  const handleSelectProject = (id: string) => {
+    if (id === projectId) return;
+    resetVideo();
+    loadedProjectIdRef.current = null;
+    router.replace(`?project=${id}`);
+  };
+
+  const handleNewProject = () => {
+    resetVideo();
+    loadedProjectIdRef.current = null;
+    leaveProject();
+    router.replace(window.location.pathname);
+  };
+
   // --- Play/Pause Toggle --- 
   const togglePlayPause = useCallback(() => {
     const video = videoRef.current;
@@ -407,12 +591,53 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     };
   }, [videoUrl, isSeeking]); // Re-run if video changes or seeking state changes
 
-  // Effect for Keyboard Shortcuts (Undo/Redo)
+  // Effect for Keyboard Shortcuts (Undo/Redo, split and merge, batch actions on the selection)
   useEffect(() => {
+    // Cue to split or merge: the selected one, or the one under the playhead
+    const findShortcutTarget = (time: number, mustContainTime: boolean) => {
+      const { subtitles: subs, selectedSubtitleIds } = useSubtitleStore.getState();
+      const contains = (sub: Subtitle) => sub.start < time && time < sub.end;
+      const selected = selectedSubtitleIds.length === 1 ? subs.find(sub => sub.id === selectedSubtitleIds[0]) : undefined;
+      if (selected && (!mustContainTime || contains(selected))) return selected;
+      return subs.find(contains);
+    };
+
     const handleKeyDown = (event: KeyboardEvent) => {
       // Prevent shortcuts if an input field or textarea is focused
       const target = event.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+        return;
+      }
+
+      // S splits the cue at the playhead, M merges it with the next cue, Shift+M with the previous one
+      if (!event.ctrlKey && !event.metaKey && !event.altKey) {
+        const time = videoRef.current?.currentTime ?? 0;
+        const key = event.key.toLowerCase();
+        const { selectedSubtitleIds } = useSubtitleStore.getState();
+        if (key === 's') {
+          const cue = findShortcutTarget(time, true);
+          if (!cue) return;
+          event.preventDefault();
+          const secondId = useSubtitleStore.getState().splitSubtitle(cue.id, time);
+          if (secondId) useSubtitleStore.getState().setSelectedSubtitleIds([secondId]);
+        } else if (key === 'm') {
+          const cue = findShortcutTarget(time, false);
+          if (!cue) return;
+          event.preventDefault();
+          useSubtitleStore.getState().mergeSubtitle(cue.id, event.shiftKey ? 'previous' : 'next');
+        } else if (selectedSubtitleIds.length > 0) {
+          // Delete removes the selected cues, arrows nudge them by a frame (ten with Shift)
+          if (event.key === 'Delete' || event.key === 'Backspace') {
+            event.preventDefault();
+            useSubtitleStore.getState().deleteSubtitles(selectedSubtitleIds);
+          } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+            event.preventDefault();
+            const frames = (event.key === 'ArrowLeft' ? -1 : 1) * (event.shiftKey ? 10 : 1);
+            useSubtitleStore.getState().nudgeSubtitles(selectedSubtitleIds, frames);
+          } else if (event.key === 'Escape') {
+            useSubtitleStore.getState().setSelectedSubtitleIds([]);
+          }
+        }
         return;
       }
 
@@ -511,14 +736,36 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     );
   };
 
+  // Download the current subtitles as a sidecar file (SRT / WebVTT)
+  const handleSubtitleDownload = (format: SubtitleDownloadFormat) => {
+    const option = SUBTITLE_DOWNLOAD_OPTIONS.find(o => o.id === format);
+    if (!option) return;
+
+    const content = format === 'srt'
+      ? generateSrt(subtitles)
+      : generateVtt(subtitles, { wordTimestamps: format === 'vtt-words' });
+
+    const videoFileName = videoFile?.name ?? videoAsset?.fileName;
+    const baseName = videoFileName ? videoFileName.replace(/\.[^.]+$/, '') : 'subtitles';
+    const blob = new Blob([content], { type: `${option.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${baseName}.${option.extension}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 100);
+
+    setShowSubtitleDownloadMenu(false);
+  };
+
   // Handle video export
   const handleExport = async () => {
-    if (!videoFile) {
+    if (!videoUrl) {
       alert("Please select a video file first.");
       return;
     }
     // Check if the mutation is pending or if there's an active job ID from a previous attempt that hasn't cleared yet
-    if (exportVideoMutation.isPending || exportJobId) { 
+    if (exportVideoMutation.isPending || exportJobId || exportStatus === 'uploading') { 
       alert("An export is already in progress or finishing up. Please wait.");
       return;
     }
@@ -530,38 +777,28 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
     setExportError(null);
 
     try {
-      console.log("[handleExport] Reading video file...");
-      const videoB64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          // console.log("[handleExport] FileReader result (data URL):", result); // For debugging if needed
-          if (result?.includes(',')) { // Optional chaining here
-            const base64Part = result.split(',')[1];
-            if (base64Part && base64Part.length > 0) { // Check if base64Part is truthy and has length
-              console.log("[handleExport] Extracted Base64 data (first 30 chars):", base64Part.substring(0, 30));
-              resolve(base64Part);
-            } else {
-              console.error("[handleExport] Empty Base64 part after split from data URL:", result);
-              reject(new Error("Failed to extract Base64 data from video file (empty string after split)."));
-            }
-          } else {
-            console.error("[handleExport] Invalid or missing Data URL from FileReader:", result);
-            reject(new Error("Failed to read video file as a valid Data URL (missing comma or data)."));
-          }
-        };
-        reader.onerror = (event) => {
-          console.error("[handleExport] FileReader error:", event.target?.error);
-          reject(new Error(event.target?.error?.message ?? 'FileReader error reading file.'));
-        };
-        reader.readAsDataURL(videoFile); // videoFile is checked for nullity above
-      });
+      // The video is uploaded once when it is picked; wait for that upload if it is still running
+      if (!videoAsset) {
+        console.log("[handleExport] Waiting for the video upload...");
+        setExportStatus('uploading');
+      }
+      const videoAssetId = await ensureVideoAssetId();
 
-      console.log("[handleExport] Base64 data obtained, calling mutation...");
+      console.log("[handleExport] Video asset ready, calling mutation...", videoAssetId);
       const mutationResult = await exportVideoMutation.mutateAsync({
-        videoB64,
+        videoAssetId,
+        projectId: projectId ?? undefined,
         subs: subtitles,
         style: currentStyle,
+        exportMode: exportOptions.mode,
+        renderer: exportOptions.renderer,
+        softSubtitles: exportOptions.mode === 'softSubs'
+          ? {
+              container: exportOptions.container,
+              format: exportOptions.subtitleFormat,
+              language: exportOptions.language,
+            }
+          : undefined,
       });
 
       if (mutationResult.success && mutationResult.jobId) {
@@ -585,6 +822,54 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
 
   return (
     <div className="flex flex-col items-center gap-4 w-full max-w-4xl mx-auto">
+      <ProjectBar
+        projectId={projectId}
+        saveState={saveState}
+        uploadProgress={uploadProgress}
+        onSelectProject={handleSelectProject}
+        onNewProject={handleNewProject}
+        tracks={project?.tracks ?? []}
+        trackId={trackId}
+        onSelectTrack={(id) => void selectTrack(id)}
+        isGlossaryOpen={isGlossaryOpen}
+        onToggleGlossary={() => setIsGlossaryOpen(open => !open)}
+      />
+      {isGlossaryOpen && projectId && <GlossaryPanel projectId={projectId} />}
+      {uploadError && (
+        <div className="flex items-center gap-3 w-full p-3 rounded-md border border-red-400/30 bg-[#252526] text-white text-sm">
+          <AlertTriangle size={16} className="text-red-400 shrink-0" />
+          <span className="flex-1">
+            The video could not be uploaded, so it is not saved in a project and server export and transcription are unavailable: {uploadError}
+          </span>
+          <button
+            onClick={() => setUploadError(null)}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+      {pendingSession && (
+        <div className="flex items-center gap-3 w-full p-3 rounded-md border border-white/10 bg-[#252526] text-white text-sm">
+          <History size={16} className="text-blue-400 shrink-0" />
+          <span className="flex-1">
+            Unsaved edits for this video from {new Date(pendingSession.savedAt).toLocaleString()} were found
+            ({pendingSession.subtitles.length} subtitles). Restore them?
+          </span>
+          <button
+            onClick={handleRestoreSession}
+            className="px-3 py-1 bg-blue-500 hover:bg-blue-600 rounded text-white text-xs transition-colors"
+          >
+            Restore
+          </button>
+          <button
+            onClick={discardPendingSession}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      )}
       {!videoUrl ? (
         <div className="w-full">
           <label
@@ -641,6 +926,8 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                     <Layer>
                       {(() => {
                         const activeSubtitle = activeSubtitleForKonva;
+                        // Speakers can have their own colour and position
+                        const cueStyle = resolveSubtitleStyle(currentStyle, activeSubtitle ?? {});
 
                         // If we are editing this subtitle, don't render the Konva version
                         if (editingSubtitle?.id === activeSubtitle?.id) {
@@ -655,7 +942,7 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
 
                         // --- START: Typewriter effect logic for Konva --- 
                         if (
-                          currentStyle.effectType === 'cumulativePopOn' &&
+                          cueStyle.effectType === 'cumulativePopOn' &&
                           activeSubtitle.words &&
                           activeSubtitle.words.length > 0
                         ) {
@@ -674,7 +961,7 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
 
                         // If, after typewriter logic, the text is empty, don't render the group.
                         // This prevents an empty box from showing before the first word appears in typewriter mode.
-                        if (!textForKonva.trim() && currentStyle.effectType === 'cumulativePopOn') {
+                        if (!textForKonva.trim() && cueStyle.effectType === 'cumulativePopOn') {
                             return null;
                         }
                         // Also, if the original text was empty and no effect, don't render.
@@ -686,8 +973,8 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                         
                         const tempTextNode = new Konva.Text({
                             text: textForKonva, // Use the potentially modified textForKonva
-                            fontSize: currentStyle.fontSize,
-                            fontFamily: currentStyle.fontFamily,
+                            fontSize: cueStyle.fontSize,
+                            fontFamily: cueStyle.fontFamily,
                             width: videoDimensions.width - (konvaTextPadding * 4),
                             padding: konvaTextPadding,
                             align: 'center',
@@ -702,15 +989,15 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                         let rectY;
                         let rectX = (videoDimensions.width - rectWidth) / 2;
                         
-                        if (currentStyle.position === 'custom' && 
-                            typeof currentStyle.customX === 'number' && 
-                            typeof currentStyle.customY === 'number') {
+                        if (cueStyle.position === 'custom' && 
+                            typeof cueStyle.customX === 'number' && 
+                            typeof cueStyle.customY === 'number') {
                           // Use custom position if available
-                          rectX = currentStyle.customX;
-                          rectY = currentStyle.customY;
+                          rectX = cueStyle.customX;
+                          rectY = cueStyle.customY;
                         } else {
                           // Otherwise use predefined positions
-                          switch (currentStyle.position) {
+                          switch (cueStyle.position) {
                             case 'top':
                               rectY = konvaTextPadding * 2;
                               break;
@@ -745,20 +1032,24 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                         const handleDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
                           const group = e.target;
                           
-                          // Save the new positions to state
-                          setCurrentStyle(prev => ({
-                            ...prev,
-                            position: 'custom',
-                            customX: group.x(),
-                            customY: group.y()
-                          }));
+                          const position = { position: 'custom' as const, customX: group.x(), customY: group.y() };
+                          const speaker = activeSubtitle.speaker;
+
+                          // Save the new positions to state; a speaker with its own position keeps it separate
+                          setCurrentStyle(prev => {
+                            const speakerStyle = speaker ? prev.speakers?.[speaker] : undefined;
+                            if (speaker && speakerStyle?.position) {
+                              return { ...prev, speakers: { ...prev.speakers, [speaker]: { ...speakerStyle, ...position } } };
+                            }
+                            return { ...prev, ...position };
+                          });
                           
                           console.log('[VideoPlayerWithKonva] Subtitle dragged to:', { x: group.x(), y: group.y() });
                         };
 
-                        const bgColor = currentStyle.bgColor === 'transparent' 
+                        const bgColor = cueStyle.bgColor === 'transparent' 
                           ? 'transparent' 
-                          : hexToRgba(currentStyle.bgColor, currentStyle.bgOpacity);
+                          : hexToRgba(cueStyle.bgColor, cueStyle.bgOpacity);
 
                         return (
                           <Group
@@ -770,14 +1061,14 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                             onDblClick={handleDoubleClick}
                             onDragStart={() => console.log('[VideoPlayerWithKonva] Starting to drag subtitle')}
                           >
-                            {currentStyle.bgColor !== 'transparent' && (
+                            {cueStyle.bgColor !== 'transparent' && (
                               <Rect
                                 x={0}
                                 y={0}
                                 width={rectWidth}
                                 height={rectHeight}
                                 fill={bgColor}
-                                cornerRadius={currentStyle.borderRadius}
+                                cornerRadius={cueStyle.borderRadius}
                                 shadowColor="black"
                                 shadowBlur={5}
                                 shadowOpacity={0.5}
@@ -788,9 +1079,9 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                               text={textForKonva} // Use the potentially modified textForKonva
                               x={0}
                               y={0}
-                              fontSize={currentStyle.fontSize}
-                              fontFamily={currentStyle.fontFamily}
-                              fill={currentStyle.textColor}
+                              fontSize={cueStyle.fontSize}
+                              fontFamily={cueStyle.fontFamily}
+                              fill={cueStyle.textColor}
                               width={rectWidth}
                               height={rectHeight}
                               padding={konvaTextPadding} 
@@ -911,17 +1202,43 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
               <Redo2 size={20} />
             </button>
 
+            {/* Subtitle file download (SRT / WebVTT) */}
+            <div className="relative">
+              <button
+                onClick={() => setShowSubtitleDownloadMenu(!showSubtitleDownloadMenu)}
+                disabled={!subtitles.length}
+                className={`text-white p-1.5 hover:bg-white/20 rounded-full transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed ${showSubtitleDownloadMenu ? 'bg-white/20' : ''}`}
+                aria-label="Download subtitle file"
+                title="Download subtitle file (SRT / WebVTT)"
+              >
+                <Captions size={20} />
+              </button>
+              {showSubtitleDownloadMenu && (
+                <div className="absolute right-0 bottom-full mb-2 z-50 min-w-44 rounded-md border border-white/10 bg-[#252526] py-1 shadow-lg">
+                  {SUBTITLE_DOWNLOAD_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => handleSubtitleDownload(option.id)}
+                      className="block w-full px-3 py-1.5 text-left text-sm text-white/80 hover:bg-white/10 hover:text-white"
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Export button */}
             <button
               onClick={handleExport}
-              disabled={exportStatus === 'processing' || !videoFile || !subtitles.length}
+              disabled={exportStatus === 'processing' || !videoUrl || !subtitles.length}
               className={`text-white p-1.5 hover:bg-white/20 rounded-full transition-colors duration-150 ${
                 exportStatus === 'processing' ? 'bg-indigo-500/50 animate-pulse' : ''
-              } ${!videoFile || !subtitles.length ? 'opacity-50 cursor-not-allowed' : ''}`}
+              } ${!videoUrl || !subtitles.length ? 'opacity-50 cursor-not-allowed' : ''}`}
               aria-label="Export video with subtitles"
               title="Export video with subtitles"
             >
-              { (exportVideoMutation.isPending || (!!exportJobId && exportStatus !== 'completed' && exportStatus !== 'failed')) 
+              { (exportVideoMutation.isPending || exportStatus === 'uploading' || (!!exportJobId && exportStatus !== 'completed' && exportStatus !== 'failed')) 
                 ? <Loader2 size={20} className="animate-spin" /> 
                 : <Download size={20} />
               }
@@ -929,8 +1246,9 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
           </div>
 
           {/* Export Status Display */}
-          {(exportJobId ?? exportError ?? exportResult) && (
+          {(exportJobId ?? exportError ?? exportResult ?? (exportStatus === 'uploading')) && (
             <div className="mt-2 p-3 rounded-md shadow-lg border border-white/10 bg-[#252526] text-white text-sm w-full">
+              {exportStatus === 'uploading' && <p><Loader2 className="inline mr-2 animate-spin" size={16} />Uploading video... {uploadProgress !== null ? `(${uploadProgress}%)` : ''}</p>}
               {exportVideoMutation.isPending && <p><Loader2 className="inline mr-2 animate-spin" size={16} />Initiating export...</p>}
               {exportStatus === 'queued' && <p><Loader2 className="inline mr-2 animate-spin" size={16} />Export queued. Waiting for worker...</p>}
               {jobStatusData?.isActive && <p><Loader2 className="inline mr-2 animate-spin" size={16} />Processing video... {typeof jobStatusData.progress === 'number' ? `(${jobStatusData.progress}%)` : ''}</p>}
@@ -938,10 +1256,10 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                 <div className="flex items-center">
                   <CheckCircle2 className="inline mr-2 text-green-400" size={16} />
                   Export successful!
-                  {downloadUrl && (
+                  {exportResult.downloadUrl && (
                     <a
-                      href={downloadUrl}
-                      download={videoFile?.name ? `${videoFile.name.split('.')[0]}_with_subtitles.mp4` : "video_with_subtitles.mp4"}
+                      href={exportResult.downloadUrl}
+                      download={exportResult.fileName ?? true}
                       className="ml-3 px-3 py-1 bg-blue-500 hover:bg-blue-600 rounded text-white text-xs transition-colors"
                     >
                       Download Video
@@ -981,6 +1299,20 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                   <Layout size={16} />
                   <span>Layout</span>
                 </button>
+                <button
+                  onClick={() => setActiveStyleTab('speakers')}
+                  className={`flex items-center gap-1 px-4 py-2 ${activeStyleTab === 'speakers' ? 'border-b-2 border-blue-500 text-blue-400' : 'text-white/70 hover:text-white'}`}
+                >
+                  <Users size={16} />
+                  <span>Speakers</span>
+                </button>
+                <button
+                  onClick={() => setActiveStyleTab('export')}
+                  className={`flex items-center gap-1 px-4 py-2 ${activeStyleTab === 'export' ? 'border-b-2 border-blue-500 text-blue-400' : 'text-white/70 hover:text-white'}`}
+                >
+                  <Film size={16} />
+                  <span>Export</span>
+                </button>
               </div>
 
               {/* Font Tab Content */}
@@ -1199,6 +1531,123 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
                   </div>
                 </div>
               )}
+
+              {/* Speakers Tab Content */}
+              {activeStyleTab === 'speakers' && (
+                <SpeakerPanel
+                  style={currentStyle}
+                  onChangeSpeakers={(speakers) => updateStyleProperty('speakers', speakers)}
+                />
+              )}
+
+              {/* Export Tab Content */}
+              {activeStyleTab === 'export' && (
+                <div className="grid gap-4">
+                  {/* Export Mode Selection */}
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-1">Subtitles</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {EXPORT_MODE_OPTIONS.map(option => (
+                        <button
+                          key={option.id}
+                          onClick={() => setExportOptions(prev => ({ ...prev, mode: option.value }))}
+                          className={`p-2 rounded border text-sm text-left ${
+                            exportOptions.mode === option.value
+                              ? 'border-blue-500 bg-blue-500/20 text-white'
+                              : 'border-white/10 hover:bg-white/5 text-white/80'
+                          }`}
+                        >
+                          <span className="block">{option.name}</span>
+                          <span className="block text-xs text-white/50">{option.description}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Renderer Selection (burn-in only) */}
+                  {exportOptions.mode === 'burnIn' && (
+                    <div>
+                      <label className="block text-sm font-medium text-white/80 mb-1">Renderer</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {RENDERER_OPTIONS.map(option => (
+                          <button
+                            key={option.id}
+                            onClick={() => setExportOptions(prev => ({ ...prev, renderer: option.value }))}
+                            className={`p-2 rounded border text-sm text-left ${
+                              exportOptions.renderer === option.value
+                                ? 'border-blue-500 bg-blue-500/20 text-white'
+                                : 'border-white/10 hover:bg-white/5 text-white/80'
+                            }`}
+                          >
+                            <span className="block">{option.name}</span>
+                            <span className="block text-xs text-white/50">{option.description}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {exportOptions.mode === 'softSubs' && (
+                    <>
+                      {/* Container Selection */}
+                      <div>
+                        <label className="block text-sm font-medium text-white/80 mb-1">Container</label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {CONTAINER_OPTIONS.map(option => (
+                            <button
+                              key={option.id}
+                              onClick={() => setExportOptions(prev => ({ ...prev, container: option.value }))}
+                              className={`p-2 rounded border text-sm ${
+                                exportOptions.container === option.value
+                                  ? 'border-blue-500 bg-blue-500/20 text-white'
+                                  : 'border-white/10 hover:bg-white/5 text-white/80'
+                              }`}
+                            >
+                              {option.name}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Subtitle Track Format (MKV only) */}
+                      {exportOptions.container === 'mkv' && (
+                        <div>
+                          <label className="block text-sm font-medium text-white/80 mb-1">Track Format</label>
+                          <div className="grid grid-cols-2 gap-2">
+                            {SUBTITLE_TRACK_FORMAT_OPTIONS.map(option => (
+                              <button
+                                key={option.id}
+                                onClick={() => setExportOptions(prev => ({ ...prev, subtitleFormat: option.value }))}
+                                className={`p-2 rounded border text-sm ${
+                                  exportOptions.subtitleFormat === option.value
+                                    ? 'border-blue-500 bg-blue-500/20 text-white'
+                                    : 'border-white/10 hover:bg-white/5 text-white/80'
+                                }`}
+                              >
+                                {option.name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Track Language */}
+                      <div>
+                        <label className="block text-sm font-medium text-white/80 mb-1">Track Language</label>
+                        <select
+                          value={exportOptions.language}
+                          onChange={(e) => setExportOptions(prev => ({ ...prev, language: e.target.value }))}
+                          className="w-full p-2 rounded border border-white/10 bg-[#1e1e1e] text-sm text-white/80"
+                        >
+                          {SUBTITLE_LANGUAGE_OPTIONS.map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -1208,6 +1657,15 @@ const { data: jobStatusData, refetch: refetchJobStatus } = api.video.getJobStatu
             duration={duration} 
             onSeek={handleTimelineSeek}
             videoUrl={videoUrl}
+            getVideoAssetId={ensureVideoAssetId}
+            videoAssetId={videoAsset?.assetId ?? null}
+            onDialectTranscription={(subtitles) => void saveDialectTrack(subtitles)}
+            textLayout={{
+              fontSize: currentStyle.fontSize,
+              fontFamily: currentStyle.fontFamily,
+              // The preview's text box is 40px narrower than the video, with 10px padding on each side
+              textWidth: videoDimensions.width - 60,
+            }}
           />
         </div>
       )}
@@ -0,0 +1,50 @@
+import { createAssetReadStream, getAsset, isMediaMimeType } from '~/server/lib/uploads';
+import { contentDisposition, createRangeResponse } from '~/server/lib/rangeResponse';
+
+// Streams uploads from the storage driver
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ assetId: string }>;
+}
+
+async function serveAsset(request: Request, { params }: RouteContext, includeBody: boolean) {
+  const { assetId } = await params;
+  const asset = await getAsset(assetId);
+
+  if (!asset) {
+    return Response.json(
+      { error: `Uploaded asset ${assetId} not found` },
+      { status: 404, headers: { 'X-Content-Type-Options': 'nosniff' } }
+    );
+  }
+
+  // Uploads stored before media types were checked are only offered as downloads
+  const isMedia = isMediaMimeType(asset.mimeType);
+  return createRangeResponse({
+    request,
+    size: asset.size,
+    includeBody,
+    headers: new Headers({
+      'Content-Type': isMedia ? asset.mimeType : 'application/octet-stream',
+      'Content-Disposition': contentDisposition(asset.fileName, isMedia ? 'inline' : 'attachment'),
+      'X-Content-Type-Options': 'nosniff',
+      'Last-Modified': new Date(asset.createdAt).toUTCString(),
+      // Assets never change once uploaded
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    }),
+    openStream: (range) => createAssetReadStream(assetId, range),
+  });
+}
+
+/**
+ * Plays back an uploaded video, e.g. when a saved project is reopened.
+ * Range requests let the video element seek without downloading the whole file.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  return serveAsset(request, context, true);
+}
+
+export async function HEAD(request: Request, context: RouteContext) {
+  return serveAsset(request, context, false);
+}
@@ -0,0 +1,53 @@
+import {
+  createExportReadStream,
+  deleteExport,
+  getExport,
+  isExportExpired,
+} from '~/server/lib/exports';
+import { contentDisposition, createRangeResponse } from '~/server/lib/rangeResponse';
+
+// Streams renders from the storage driver
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+async function serveExport(request: Request, { params }: RouteContext, includeBody: boolean) {
+  const { jobId } = await params;
+  const result = await getExport(jobId);
+
+  if (!result) {
+    return Response.json({ error: `No export found for job ${jobId}` }, { status: 404 });
+  }
+  if (isExportExpired(result)) {
+    await deleteExport(jobId);
+    return Response.json({ error: `The export of job ${jobId} has expired. Please export again.` }, { status: 410 });
+  }
+
+  return createRangeResponse({
+    request,
+    size: result.size,
+    includeBody,
+    headers: new Headers({
+      'Content-Type': result.mimeType,
+      'Content-Disposition': contentDisposition(result.fileName),
+      'Last-Modified': new Date(result.createdAt).toUTCString(),
+      'Expires': new Date(result.expiresAt).toUTCString(),
+      'Cache-Control': 'private, no-transform',
+    }),
+    openStream: (range) => createExportReadStream(jobId, range),
+  });
+}
+
+/**
+ * Downloads the render of a finished export job. Supports single byte ranges
+ * so browsers can seek and resume large downloads.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  return serveExport(request, context, true);
+}
+
+export async function HEAD(request: Request, context: RouteContext) {
+  return serveExport(request, context, false);
+}
@@ -0,0 +1,21 @@
+import { saveUploadFromRequest, UploadError } from '~/server/lib/uploads';
+
+// formidable needs Node streams and file system access
+export const runtime = 'nodejs';
+
+/**
+ * Accepts a multipart/form-data upload with a single file, streams it to disk
+ * and returns the asset ID to reference it in tRPC calls.
+ */
+export async function POST(request: Request) {
+  try {
+    const asset = await saveUploadFromRequest(request);
+    return Response.json(asset, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof UploadError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[upload] Unexpected error while storing upload:', error);
+    return Response.json({ error: 'Upload failed' }, { status: 500 });
+  }
+}
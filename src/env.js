@@ -11,6 +11,46 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+
+    // Transcription (see src/server/lib/transcription)
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    TRANSCRIPTION_PROVIDER: z.enum(["openai", "http"]).default("openai"),
+    TRANSCRIPTION_MODEL: z.string().min(1).default("whisper-1"),
+    TRANSCRIPTION_HTTP_URL: z.string().url().optional(),
+    TRANSCRIPTION_HTTP_API_KEY: z.string().optional(),
+    TRANSCRIPTION_HTTP_TIMEOUT_SECONDS: z.coerce.number().positive().default(600),
+    TRANSCRIPTION_AUDIO_FORMAT: z.enum(["flac", "opus"]).default("flac"),
+    // Long audio is split into chunks of at most this length (plus overlap)
+    TRANSCRIPTION_CHUNK_SECONDS: z.coerce.number().min(60).max(720).default(600),
+    TRANSCRIPTION_CHUNK_OVERLAP_SECONDS: z.coerce.number().min(0).max(30).default(5),
+    TRANSCRIPTION_CONCURRENCY: z.coerce.number().int().positive().default(3),
+    // OpenAI chat model that rewrites dialect transcripts into Standard German
+    TRANSCRIPTION_REWRITE_MODEL: z.string().min(1).default("gpt-4o-mini"),
+    // Assigns speakers to transcribed segments when a job asks for them
+    DIARIZATION_PROVIDER: z.enum(["local"]).default("local"),
+
+    // Queue and export worker
+    REDIS_URL: z.string().url().default("redis://localhost:6379"),
+    VIDEO_WORKER_CONCURRENCY: z.coerce.number().int().positive().default(1),
+    VIDEO_WORKER_LIMITER_MAX: z.coerce.number().int().positive().default(10),
+    VIDEO_WORKER_LIMITER_DURATION: z.coerce.number().int().positive().default(1000), // Milliseconds
+    TRANSCRIPTION_WORKER_CONCURRENCY: z.coerce.number().int().positive().default(2),
+
+    // Storage (see src/server/lib/storage)
+    MAX_UPLOAD_SIZE_MB: z.coerce.number().positive().default(2048),
+    STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+    STORAGE_LOCAL_ROOT: z.string().min(1).optional(),
+    STORAGE_RETENTION_UPLOAD_HOURS: z.coerce.number().positive().default(72),
+    STORAGE_RETENTION_INTERMEDIATE_HOURS: z.coerce.number().positive().default(6),
+    STORAGE_RETENTION_RENDER_HOURS: z.coerce.number().positive().default(24),
+    STORAGE_PURGE_INTERVAL_MINUTES: z.coerce.number().positive().default(60),
+    S3_BUCKET: z.string().min(1).optional(),
+    S3_REGION: z.string().min(1).default("us-east-1"),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_FORCE_PATH_STYLE: z.enum(["true", "false"]).optional(),
+    S3_KEY_PREFIX: z.string().optional(),
   },
 
   /**
@@ -29,6 +69,37 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    TRANSCRIPTION_PROVIDER: process.env.TRANSCRIPTION_PROVIDER,
+    TRANSCRIPTION_MODEL: process.env.TRANSCRIPTION_MODEL,
+    TRANSCRIPTION_HTTP_URL: process.env.TRANSCRIPTION_HTTP_URL,
+    TRANSCRIPTION_HTTP_API_KEY: process.env.TRANSCRIPTION_HTTP_API_KEY,
+    TRANSCRIPTION_HTTP_TIMEOUT_SECONDS: process.env.TRANSCRIPTION_HTTP_TIMEOUT_SECONDS,
+    TRANSCRIPTION_AUDIO_FORMAT: process.env.TRANSCRIPTION_AUDIO_FORMAT,
+    TRANSCRIPTION_CHUNK_SECONDS: process.env.TRANSCRIPTION_CHUNK_SECONDS,
+    TRANSCRIPTION_CHUNK_OVERLAP_SECONDS: process.env.TRANSCRIPTION_CHUNK_OVERLAP_SECONDS,
+    TRANSCRIPTION_CONCURRENCY: process.env.TRANSCRIPTION_CONCURRENCY,
+    TRANSCRIPTION_REWRITE_MODEL: process.env.TRANSCRIPTION_REWRITE_MODEL,
+    DIARIZATION_PROVIDER: process.env.DIARIZATION_PROVIDER,
+    REDIS_URL: process.env.REDIS_URL,
+    VIDEO_WORKER_CONCURRENCY: process.env.VIDEO_WORKER_CONCURRENCY,
+    VIDEO_WORKER_LIMITER_MAX: process.env.VIDEO_WORKER_LIMITER_MAX,
+    VIDEO_WORKER_LIMITER_DURATION: process.env.VIDEO_WORKER_LIMITER_DURATION,
+    TRANSCRIPTION_WORKER_CONCURRENCY: process.env.TRANSCRIPTION_WORKER_CONCURRENCY,
+    MAX_UPLOAD_SIZE_MB: process.env.MAX_UPLOAD_SIZE_MB,
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+    STORAGE_LOCAL_ROOT: process.env.STORAGE_LOCAL_ROOT,
+    STORAGE_RETENTION_UPLOAD_HOURS: process.env.STORAGE_RETENTION_UPLOAD_HOURS,
+    STORAGE_RETENTION_INTERMEDIATE_HOURS: process.env.STORAGE_RETENTION_INTERMEDIATE_HOURS,
+    STORAGE_RETENTION_RENDER_HOURS: process.env.STORAGE_RETENTION_RENDER_HOURS,
+    STORAGE_PURGE_INTERVAL_MINUTES: process.env.STORAGE_PURGE_INTERVAL_MINUTES,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_REGION: process.env.S3_REGION,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE,
+    S3_KEY_PREFIX: process.env.S3_KEY_PREFIX,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -42,3 +113,23 @@ export const env = createEnv({
    */
   emptyStringAsUndefined: true,
 });
+
+/**
+ * Settings that are only required in combination with others. Checked here so
+ * the app and the worker fail at startup instead of on the first request.
+ */
+if (!process.env.SKIP_ENV_VALIDATION && typeof window === "undefined") {
+  const missing = [
+    env.TRANSCRIPTION_PROVIDER === "openai" && !env.OPENAI_API_KEY &&
+      'OPENAI_API_KEY is required when TRANSCRIPTION_PROVIDER is "openai"',
+    env.TRANSCRIPTION_PROVIDER === "http" && !env.TRANSCRIPTION_HTTP_URL &&
+      'TRANSCRIPTION_HTTP_URL is required when TRANSCRIPTION_PROVIDER is "http"',
+    env.STORAGE_DRIVER === "s3" && !env.S3_BUCKET &&
+      'S3_BUCKET is required when STORAGE_DRIVER is "s3"',
+  ].filter(Boolean);
+
+  if (missing.length > 0) {
+    console.error("❌ Invalid environment variables:", missing);
+    throw new Error(`Invalid environment variables: ${missing.join("; ")}`);
+  }
+}
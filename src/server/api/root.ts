@@ -1,4 +1,4 @@
-import { postRouter } from "~/server/api/routers/post";
+import { projectRouter } from "~/server/api/routers/project";
 import { videoRouter } from "~/server/api/routers/video";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
@@ -8,7 +8,7 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
-  post: postRouter,
+  project: projectRouter,
   video: videoRouter,
 });
 
@@ -19,7 +19,7 @@ export type AppRouter = typeof appRouter;
  * Create a server-side caller for the tRPC API.
  * @example
  * const trpc = createCaller(createContext);
- * const res = await trpc.post.all();
- *       ^? Post[]
+ * const res = await trpc.project.list();
+ *       ^? Project[]
  */
 export const createCaller = createCallerFactory(appRouter);
@@ -0,0 +1,344 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { getAsset } from "~/server/lib/uploads";
+import type { Subtitle } from "~/store/subtitleStore";
+import type { SubtitleStyle } from "~/app/_components/VideoPlayerWithKonva";
+
+const wordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  probability: z.number().optional(),
+});
+
+const confidenceSchema = z.object({
+  avgLogprob: z.number().optional(),
+  noSpeechProb: z.number().optional(),
+  compressionRatio: z.number().optional(),
+});
+
+// Mirrors SubtitleStyleOverride
+const styleOverrideSchema = z.object({
+  textColor: z.string().optional(),
+  bgColor: z.string().optional(),
+  fontSize: z.number().positive().optional(),
+  position: z.enum(['bottom', 'middle', 'top']).optional(),
+});
+
+const subtitleSchema = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+  words: z.array(wordSchema).optional(),
+  confidence: confidenceSchema.optional(),
+  speaker: z.string().max(100).optional(),
+  styleOverride: styleOverrideSchema.optional(),
+});
+
+// Mirrors SubtitleStyle; stored as JSON on the project
+const styleSchema = z.object({
+  fontFamily: z.string(),
+  fontSize: z.number(),
+  textColor: z.string(),
+  bgColor: z.string(),
+  bgOpacity: z.number(),
+  borderRadius: z.number(),
+  position: z.enum(['bottom', 'top', 'middle', 'custom']),
+  customX: z.number().optional(),
+  customY: z.number().optional(),
+  effectType: z.enum(['none', 'cumulativePopOn', 'wordByWord']).optional(),
+  speakers: z.record(z.object({
+    name: z.string().max(100),
+    textColor: z.string().optional(),
+    position: z.enum(['bottom', 'top', 'middle', 'custom']).optional(),
+    customX: z.number().optional(),
+    customY: z.number().optional(),
+  })).optional(),
+});
+
+const DEFAULT_TRACK = { name: 'Swiss German', language: 'gsw' };
+// Tracks of a Standard German transcription and of the dialect it was rewritten from
+const STANDARD_GERMAN_TRACK = { name: 'Standard German', language: 'deu' };
+const DIALECT_ORIGINAL_TRACK = { name: 'Swiss German (original)', language: 'gsw' };
+
+const videoAssetSelect = {
+  id: true,
+  assetId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  durationSeconds: true,
+  width: true,
+  height: true,
+  createdAt: true,
+} satisfies Prisma.VideoAssetSelect;
+
+// BigInt sizes are converted so the client can treat them like File.size
+const toVideoAsset = (asset: Prisma.VideoAssetGetPayload<{ select: typeof videoAssetSelect }>) => ({
+  ...asset,
+  size: Number(asset.size),
+});
+
+// Cue rows of a track in playback order
+const toCues = (trackId: string, subtitles: z.infer<typeof subtitleSchema>[]) =>
+  [...subtitles]
+    .sort((a, b) => a.start - b.start)
+    .map((sub, position) => ({
+      id: sub.id,
+      trackId,
+      position,
+      text: sub.text,
+      start: sub.start,
+      end: sub.end,
+      words: sub.words ?? Prisma.DbNull,
+      confidence: sub.confidence ?? Prisma.DbNull,
+      speaker: sub.speaker ?? null,
+      styleOverride: sub.styleOverride ?? Prisma.DbNull,
+    }));
+
+async function requireTrack(db: Prisma.TransactionClient, projectId: string, trackId: string) {
+  const track = await db.subtitleTrack.findFirst({
+    where: { id: trackId, projectId },
+    select: { id: true },
+  });
+  if (!track) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Track ${trackId} not found in project ${projectId}.` });
+  }
+  return track;
+}
+
+async function requireProject(db: Prisma.TransactionClient, projectId: string) {
+  const project = await db.project.findUnique({ where: { id: projectId }, select: { id: true } });
+  if (!project) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${projectId} not found.` });
+  }
+  return project;
+}
+
+// Links an uploaded asset to a project, using the upload's metadata
+async function attachVideoAsset(db: Prisma.TransactionClient, projectId: string, assetId: string) {
+  const asset = await getAsset(assetId);
+  if (!asset) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Uploaded asset ${assetId} not found.` });
+  }
+  return db.videoAsset.upsert({
+    where: { assetId },
+    create: {
+      projectId,
+      assetId,
+      fileName: asset.fileName,
+      mimeType: asset.mimeType,
+      size: BigInt(asset.size),
+    },
+    update: { projectId },
+    select: videoAssetSelect,
+  });
+}
+
+export const projectRouter = createTRPCRouter({
+  list: publicProcedure.query(async ({ ctx }) => {
+    return ctx.db.project.findMany({
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true, name: true, createdAt: true, updatedAt: true },
+    });
+  }),
+
+  // Loads a project with its latest video and all tracks including cues
+  get: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findUnique({
+        where: { id: input.id },
+        include: {
+          videoAssets: { orderBy: { createdAt: 'desc' }, take: 1, select: videoAssetSelect },
+          tracks: {
+            orderBy: { createdAt: 'asc' },
+            include: { cues: { orderBy: { position: 'asc' } } },
+          },
+        },
+      });
+
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${input.id} not found.` });
+      }
+
+      const videoAsset = project.videoAssets[0];
+      return {
+        id: project.id,
+        name: project.name,
+        style: project.style as SubtitleStyle | null,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+        video: videoAsset ? toVideoAsset(videoAsset) : null,
+        tracks: project.tracks.map(track => ({
+          id: track.id,
+          name: track.name,
+          language: track.language,
+          subtitles: track.cues.map((cue): Subtitle => ({
+            id: cue.id,
+            text: cue.text,
+            start: cue.start,
+            end: cue.end,
+            words: (cue.words as Subtitle['words'] | null) ?? undefined,
+            confidence: (cue.confidence as Subtitle['confidence'] | null) ?? undefined,
+            speaker: cue.speaker ?? undefined,
+            styleOverride: (cue.styleOverride as Subtitle['styleOverride'] | null) ?? undefined,
+          })),
+        })),
+      };
+    }),
+
+  // Creates a project with an empty default track, optionally with an uploaded video
+  create: publicProcedure
+    .input(z.object({
+      name: z.string().min(1).max(200),
+      videoAssetId: z.string().uuid().optional(),
+      style: styleSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.$transaction(async (tx) => {
+        const project = await tx.project.create({
+          data: {
+            name: input.name,
+            style: input.style,
+            tracks: { create: DEFAULT_TRACK },
+          },
+          include: { tracks: { select: { id: true } } },
+        });
+        const video = input.videoAssetId ? await attachVideoAsset(tx, project.id, input.videoAssetId) : null;
+        return {
+          id: project.id,
+          name: project.name,
+          trackId: project.tracks[0]!.id,
+          video: video ? toVideoAsset(video) : null,
+        };
+      });
+    }),
+
+  update: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      name: z.string().min(1).max(200).optional(),
+      style: styleSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.id);
+      return ctx.db.project.update({
+        where: { id: input.id },
+        data: { name: input.name, style: input.style },
+        select: { id: true, name: true, updatedAt: true },
+      });
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.id);
+      await ctx.db.project.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+
+  attachVideo: publicProcedure
+    .input(z.object({
+      projectId: z.string(),
+      videoAssetId: z.string().uuid(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId);
+      const video = await attachVideoAsset(ctx.db, input.projectId, input.videoAssetId);
+      return toVideoAsset(video);
+    }),
+
+  // Glossary terms used to prompt and post-correct transcriptions
+  getGlossary: publicProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId);
+      return ctx.db.glossaryEntry.findMany({
+        where: { projectId: input.projectId },
+        orderBy: { position: 'asc' },
+        select: { id: true, term: true, variants: true },
+      });
+    }),
+
+  // Replaces the project's glossary
+  saveGlossary: publicProcedure
+    .input(z.object({
+      projectId: z.string(),
+      entries: z.array(z.object({
+        term: z.string().trim().min(1).max(200),
+        variants: z.array(z.string().trim().min(1).max(200)).max(50),
+      })).max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId);
+      await ctx.db.$transaction([
+        ctx.db.glossaryEntry.deleteMany({ where: { projectId: input.projectId } }),
+        ctx.db.glossaryEntry.createMany({
+          data: input.entries.map((entry, position) => ({
+            projectId: input.projectId,
+            position,
+            term: entry.term,
+            variants: [...new Set(entry.variants)],
+          })),
+        }),
+      ]);
+      return { entryCount: input.entries.length };
+    }),
+
+  // Replaces all cues of a track with the editor's subtitles
+  saveTrack: publicProcedure
+    .input(z.object({
+      projectId: z.string(),
+      trackId: z.string(),
+      subtitles: z.array(subtitleSchema),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const track = await requireTrack(ctx.db, input.projectId, input.trackId);
+      const cues = toCues(track.id, input.subtitles);
+
+      await ctx.db.$transaction([
+        ctx.db.cue.deleteMany({ where: { trackId: track.id } }),
+        ctx.db.cue.createMany({ data: cues }),
+        ctx.db.subtitleTrack.update({ where: { id: track.id }, data: { updatedAt: new Date() } }),
+        ctx.db.project.update({ where: { id: input.projectId }, data: { updatedAt: new Date() } }),
+      ]);
+
+      return { trackId: track.id, cueCount: cues.length };
+    }),
+
+  // After a Standard German transcription: labels the edited track as Standard
+  // German and stores the dialect transcript in a second track, replacing the
+  // dialect original of an earlier transcription
+  saveDialectTrack: publicProcedure
+    .input(z.object({
+      projectId: z.string(),
+      trackId: z.string(), // Track that received the Standard German subtitles
+      subtitles: z.array(subtitleSchema),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.$transaction(async (tx) => {
+        await requireTrack(tx, input.projectId, input.trackId);
+        await tx.subtitleTrack.update({ where: { id: input.trackId }, data: STANDARD_GERMAN_TRACK });
+
+        const existing = await tx.subtitleTrack.findFirst({
+          where: { projectId: input.projectId, language: DIALECT_ORIGINAL_TRACK.language, id: { not: input.trackId } },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true },
+        });
+        const dialectTrack = existing ?? await tx.subtitleTrack.create({
+          data: { projectId: input.projectId, ...DIALECT_ORIGINAL_TRACK },
+          select: { id: true },
+        });
+
+        await tx.cue.deleteMany({ where: { trackId: dialectTrack.id } });
+        await tx.cue.createMany({ data: toCues(dialectTrack.id, input.subtitles) });
+        await tx.project.update({ where: { id: input.projectId }, data: { updatedAt: new Date() } });
+        return { trackId: dialectTrack.id, cueCount: input.subtitles.length };
+      });
+    }),
+});
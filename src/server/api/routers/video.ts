@@ -1,10 +1,6 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import OpenAI, { toFile } from 'openai';
-import { getOpenAIConfig } from '~/config/env';
 import { TRPCError } from '@trpc/server';
-import { Buffer } from 'buffer';
-import { Readable } from 'stream';
 
 
 
@@ -12,182 +8,145 @@ import type { Subtitle } from '~/store/subtitleStore';
 import type { SubtitleStyle } from "~/app/_components/VideoPlayerWithKonva";
 
 // Import the queue
-import { videoExportQueue } from '~/server/lib/queue';
-
-interface WordTimestamp {
-  word: string;
-  start: number;
-  end: number;
-}
-
-export interface TranscriptionSegment {
-  text: string;
-  start: number; // start time in seconds
-  end: number;   // end time in seconds
-  words?: WordTimestamp[]; // Add optional word timestamps array
-}
-
-// Define the expected structure for individual segments in OpenAI's verbose_json response
-interface OpenAISegment {
-  id: number;
-  seek: number;
-  start: number; // in seconds
-  end: number;   // in seconds
-  text: string;
-  tokens: number[];
-  temperature: number;
-  avg_logprob: number;
-  compression_ratio: number;
-  no_speech_prob: number;
-}
-
-// Define the expected structure for the overall OpenAI verbose_json response
-interface OpenAIVerboseJSONResponse {
-  text: string;
-  segments: OpenAISegment[];
-  language: string;
-  duration: number;
-  words?: WordTimestamp[]; // Add optional words array to the response type
-}
-
-// Helper function to convert Base64 string to ArrayBuffer
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64); // Node.js v16+
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+import { transcriptionQueue, videoExportQueue } from '~/server/lib/queue';
+import { getAsset } from '~/server/lib/uploads';
+import { getExportDownloadUrl, type ExportResult } from '~/server/lib/exports';
+import {
+  AUDIO_EXTRACTION_FAILED,
+  type TranscriptionJobData,
+  type TranscriptionProgress,
+} from '~/server/lib/transcription';
+
+export type {
+  TranscriptionOutputLanguage,
+  TranscriptionProgress,
+  TranscriptionSegment,
+} from '~/server/lib/transcription';
+
+// Resolves an uploaded asset or fails the request with NOT_FOUND
+async function requireAsset(assetId: string) {
+  const asset = await getAsset(assetId);
+  if (!asset) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Uploaded asset ${assetId} not found. Please upload the file again.`,
+    });
   }
-  return bytes.buffer;
+  return asset;
 }
 
 // Removed the parseSrtToSegments function as it's no longer needed
 
+// Options for muxing subtitles as a separate track instead of burning them in
+export interface SoftSubtitleOptions {
+  container: 'mp4' | 'mkv'; // MP4 always carries mov_text
+  format: 'vtt' | 'ass'; // Subtitle codec used for MKV
+  language: string; // ISO 639-2 code, e.g. 'gsw' for Swiss German
+}
+
 // Define the job data interface
 interface VideoExportJobData {
-  videoB64: string;
+  videoAssetId: string; // Uploaded via /api/upload, read from disk by the worker
   subs: Subtitle[]; // Make sure Subtitle type matches Zod schema
   style: SubtitleStyle; // Make sure SubtitleStyle matches Zod schema
+  exportMode: 'burnIn' | 'softSubs';
+  softSubtitles?: SoftSubtitleOptions; // Only used when exportMode is 'softSubs'
+  renderer: 'png' | 'ass'; // Burn-in renderer; PNG overlays stay the default
   // videoFileName: string; // Optional: if you want to pass the original filename
 }
 
 export const videoRouter = createTRPCRouter({
-  transcribe: publicProcedure
+  // Queues a transcription; the transcription worker extracts the audio and reports progress per chunk
+  startTranscription: publicProcedure
     .input(z.object({
-      videoBuffer: z.string() // Expect Base64 string (WAV audio)
+      // Either the uploaded video (audio is extracted on the server) or a WAV
+      // the browser extracted itself, used as a fallback
+      videoAssetId: z.string().uuid().optional(),
+      audioAssetId: z.string().uuid().optional(),
+      audio: z.object({
+        channel: z.union([z.literal('mix'), z.number().int().min(0).max(63)]),
+        normalizeLoudness: z.boolean(),
+      }).optional(),
+      projectId: z.string().optional(), // Uses the project's glossary
+      // 'deu' rewrites the dialect transcript into Standard German and keeps the original
+      outputLanguage: z.enum(['gsw', 'deu']).default('gsw'),
+      speakerCount: z.number().int().min(2).max(6).optional(), // Detects speakers if set
+    }).refine(input => !!input.videoAssetId !== !!input.audioAssetId, {
+      message: 'Provide either videoAssetId or audioAssetId',
     }))
-    .mutation(async ({ input }): Promise<TranscriptionSegment[]> => {
+    .mutation(async ({ ctx, input }) => {
+      await requireAsset((input.videoAssetId ?? input.audioAssetId)!);
+
+      const glossary = input.projectId
+        ? await ctx.db.glossaryEntry.findMany({
+            where: { projectId: input.projectId },
+            orderBy: { position: 'asc' },
+            select: { term: true, variants: true },
+          })
+        : [];
+
+      const jobData: TranscriptionJobData = {
+        videoAssetId: input.videoAssetId,
+        audioAssetId: input.audioAssetId,
+        audio: input.audio,
+        glossary,
+        outputLanguage: input.outputLanguage,
+        speakerCount: input.speakerCount,
+      };
       try {
-        // Set ffmpeg path at runtime for transcribe as well
-        // const ffmpegPath = await getFfmpegPath(); // This call needs to be re-evaluated
-        // console.log('[ffmpeg] using binary at', ffmpegPath);
-        // ffmpeg.setFfmpegPath(ffmpegPath); // And this one too.
-        // For now, let's assume transcribe might need its own ffmpeg path logic or we address it later.
-        // For this refactor, we focus on exportWithSubs. If transcribe breaks, it's a separate issue.
-
-        // 1. Decode Base64 to ArrayBuffer
-        const wavAudioBuffer = base64ToArrayBuffer(input.videoBuffer);
-        // Convert ArrayBuffer to Buffer
-        const audioBuffer = Buffer.from(wavAudioBuffer);
-
-        // Create a Readable stream from the Buffer
-        const audioStream = new Readable();
-        audioStream.push(audioBuffer);
-        audioStream.push(null); // Signal end of stream
-
-        // IMPORTANT: Provide a filename with the correct extension (.wav)
-        // Convert the stream to an Uploadable file object
-        const uploadableAudioFile = await toFile(audioStream, 'audio.wav');
-
-
-        // 2. Initialize official OpenAI client
-        const { apiKey } = getOpenAIConfig();
-        // Instantiate the official client
-        const openai = new OpenAI({ apiKey }); 
-
-        console.log('openai', openai);
-
-        // 3. Invoke Whisper transcription using the official client
-        // Ensure the response is typed correctly
-        const response = await openai.audio.transcriptions.create({
-          model: 'whisper-1',
-          file: uploadableAudioFile, // Pass the Uploadable file object
-          response_format: 'verbose_json', // Request detailed response with segments
-          timestamp_granularities: ['word', 'segment'],
-        }) as unknown as OpenAIVerboseJSONResponse; // Assert to our expected response type
-
-        console.log('response', response);
-
-        // 4. Validate response (expecting an object with a segments array)
-        if (!response || typeof response !== 'object' || !Array.isArray(response.segments)) {
-          console.error('Invalid transcript response type from OpenAI. Expected object with segments array, got:', typeof response, response);
-          throw new Error('Invalid transcript response: Expected object with segments from OpenAI API.');
-        }
-        
-        // Also log if words are missing, as they are crucial now
-        if (!Array.isArray(response.words)) {
-          console.warn('OpenAI response missing "words" array. Word-level timing will not be available.');
-        }
-
-        // 5. Map the returned segments and associate words
-        const openAIsegments = response.segments;
-        const allWords = response.words ?? []; // Use empty array if words are missing
-
-        // The verbose_json response segments have start/end in seconds, matching our interface
-        const segmentsWithWords: TranscriptionSegment[] = openAIsegments.map((seg: OpenAISegment) => {
-          // Find words that fall within this segment's time range
-          const segmentWords = allWords.filter(word => 
-             word.start >= seg.start && word.end <= seg.end
-          );
-
-          return {
-            text: seg.text.trim(), // Trim potential whitespace
-            start: seg.start,
-            end: seg.end,
-            words: segmentWords.length > 0 ? segmentWords : undefined // Add words if found
-            // Other available fields in verbose_json segments can be added if needed
-          };
-        });
-
-        console.log('segmentsWithWords', segmentsWithWords);
-
-        // Log if no segments were returned
-        if (segmentsWithWords.length === 0 && response.text) {
-          console.log('Transcription returned 0 segments. Full text:', response.text);
-        } else if (segmentsWithWords.length === 0) {
-             console.log('Transcription returned 0 segments and no text.');
-        }
-        
-        // Remove the previous console.log for sdkSegments
-        // console.log('sdkSegments', sdkSegments); 
-
-        return segmentsWithWords; // Return the segments with associated words
+        const job = await transcriptionQueue.add('transcription-job', jobData);
+        console.log(`[startTranscription] Job with ID ${job.id} added to the queue.`);
+        return { jobId: job.id! };
       } catch (error: unknown) {
-        let message = 'Unknown error during transcription';
-        
-        // Check if it's an OpenAI API error
-        if (error instanceof OpenAI.APIError) {
-            message = `OpenAI API Error (${error.status}): ${error.message}`;
-            console.error('OpenAI API Error:', error.status, error.message, error.code, error.type);
-        } else if (error instanceof Error) {
-          message = error.message;
-          console.error('Transcription failed on server:', message, error.stack);
-        } else {
-          console.error('Transcription failed on server with unknown error type:', String(error));
-          message = String(error);
-        }
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[startTranscription] Error submitting job to queue:', message);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: message,
+          message: `Failed to start transcription: ${message}`,
           cause: error,
         });
       }
     }),
 
+  getTranscriptionStatus: publicProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ input }) => {
+      const job = await transcriptionQueue.getJob(input.jobId);
+
+      if (!job) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Transcription job with ID ${input.jobId} not found.`,
+        });
+      }
+
+      const state = await job.getState();
+      const { progress, failedReason } = job;
+      const isCompleted = state === 'completed';
+      const isFailed = state === 'failed';
+
+      return {
+        jobId: input.jobId,
+        status: state,
+        isActive: state === 'active',
+        isWaiting: state === 'waiting' || state === 'delayed',
+        isCompleted,
+        isFailed,
+        // 0 until the worker reports its first TranscriptionProgress
+        progress: typeof progress === 'object' ? progress as TranscriptionProgress : null,
+        segments: isCompleted ? job.returnvalue?.segments ?? null : null,
+        language: isCompleted ? job.returnvalue?.language ?? null : null,
+        dialectSegments: isCompleted ? job.returnvalue?.dialectSegments ?? null : null,
+        failedReason: failedReason ?? null,
+        // The client extracts the audio in the browser instead
+        audioExtractionFailed: isFailed && !!failedReason?.startsWith(AUDIO_EXTRACTION_FAILED),
+      };
+    }),
+
   // Update the exportWithSubs mutation
   exportWithSubs: publicProcedure
     .input(z.object({
-      videoB64: z.string(), // Base64 encoded video without data:URI prefix
+      videoAssetId: z.string().uuid(), // Video uploaded via /api/upload
       subs: z.array(z.object({
         id: z.string(),
         text: z.string(),
@@ -198,7 +157,13 @@ export const videoRouter = createTRPCRouter({
           start: z.number(),
           end: z.number()
         })).optional(),
-        // speaker: z.string().optional(), // Removed speaker as it's not in Subtitle type from store
+        speaker: z.string().optional(),
+        styleOverride: z.object({
+          textColor: z.string().optional(),
+          bgColor: z.string().optional(),
+          fontSize: z.number().positive().optional(),
+          position: z.enum(['bottom', 'middle', 'top']).optional(),
+        }).optional(),
       })),
       style: z.object({
         fontFamily: z.string(),
@@ -210,31 +175,76 @@ export const videoRouter = createTRPCRouter({
         position: z.enum(['bottom', 'top', 'middle', 'custom']),
         customX: z.number().optional(),
         customY: z.number().optional(),
-        effectType: z.enum(['none', 'cumulativePopOn', 'wordByWord']).optional().default('none')
+        effectType: z.enum(['none', 'cumulativePopOn', 'wordByWord']).optional().default('none'),
+        speakers: z.record(z.object({
+          name: z.string(),
+          textColor: z.string().optional(),
+          position: z.enum(['bottom', 'top', 'middle', 'custom']).optional(),
+          customX: z.number().optional(),
+          customY: z.number().optional(),
+        })).optional(),
       }),
-      // videoFileName: z.string().optional(), // Optional: if you want to pass the original filename
+      // 'burnIn' re-encodes with the subtitles drawn onto the video,
+      // 'softSubs' stream-copies the video and adds a subtitle track
+      exportMode: z.enum(['burnIn', 'softSubs']).optional().default('burnIn'),
+      // Burn-in renderer: 'png' draws each cue with node-canvas, 'ass' renders
+      // generateAss output with libass in a single ffmpeg pass
+      renderer: z.enum(['png', 'ass']).optional().default('png'),
+      softSubtitles: z.object({
+        container: z.enum(['mp4', 'mkv']).default('mp4'),
+        format: z.enum(['vtt', 'ass']).default('vtt'),
+        language: z.string().regex(/^[a-z]{3}$/, 'Expected an ISO 639-2 language code').default('gsw'),
+      }).optional(),
+      projectId: z.string().optional(), // Records the export on the project
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         console.log('[exportWithSubs] Received export request.');
         console.log(`[exportWithSubs] Received style.fontFamily: "${input.style.fontFamily}"`);
         console.log(`[exportWithSubs] Effect type: "${input.style.effectType}"`);
+        console.log(`[exportWithSubs] Export mode: "${input.exportMode}", renderer: "${input.renderer}"`);
+
+        const videoAsset = await requireAsset(input.videoAssetId);
+        console.log(`[exportWithSubs] Using uploaded video ${videoAsset.assetId} (${videoAsset.fileName}, ${videoAsset.size} bytes)`);
+
+        // Check the project before queueing, so no render runs without its export record
+        if (input.projectId) {
+          const project = await ctx.db.project.findUnique({ where: { id: input.projectId }, select: { id: true } });
+          if (!project) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${input.projectId} not found.` });
+          }
+        }
 
         // Prepare the job data from the input
         // Ensure that the structure of input.subs and input.style
         // is compatible with the VideoExportJobData interface.
         // Zod validation already ensures the basic structure.
         const jobData: VideoExportJobData = {
-          videoB64: input.videoB64,
+          videoAssetId: input.videoAssetId,
           subs: input.subs,
           style: input.style,
-          // videoFileName: input.videoFileName, // If you add videoFileName to input
+          exportMode: input.exportMode,
+          renderer: input.renderer,
+          softSubtitles: input.exportMode === 'softSubs'
+            ? (input.softSubtitles ?? { container: 'mp4', format: 'vtt', language: 'gsw' })
+            : undefined,
         };
 
         // Add the job to the queue
         const job = await videoExportQueue.add('video-export-job', jobData);
 
-        console.log(`[exportWithSubs] Job with ID ${job.id} added to the queue.`);
+        if (input.projectId && job.id) {
+          await ctx.db.exportJob.create({
+            data: {
+              projectId: input.projectId,
+              queueJobId: job.id,
+              status: 'waiting',
+              exportMode: input.exportMode,
+              renderer: input.renderer,
+              container: jobData.softSubtitles?.container ?? 'mp4',
+            },
+          });
+        }
 
         return {
           success: true,
@@ -243,6 +253,7 @@ export const videoRouter = createTRPCRouter({
         };
 
       } catch (error: unknown) {
+        if (error instanceof TRPCError) throw error; // e.g. missing upload
         let message = 'Unknown error during exportWithSubs job submission';
         if (error instanceof Error) {
           message = error.message;
@@ -261,7 +272,7 @@ export const videoRouter = createTRPCRouter({
 
   getJobStatus: publicProcedure
     .input(z.object({ jobId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const job = await videoExportQueue.getJob(input.jobId);
 
       if (!job) {
@@ -273,9 +284,23 @@ export const videoRouter = createTRPCRouter({
 
       const state = await job.getState();
       const progress = job.progress;
-      const returnValue = job.returnvalue;
+      // The worker stores the render on disk and returns its metadata
+      const exportResult = job.returnvalue as ExportResult | null;
       const failedReason = job.failedReason;
 
+      // Keep the project's export record in sync (no-op for exports without a project)
+      const syncedStatus = state as string;
+      const finishedOn = job.finishedOn as number | undefined;
+      await ctx.db.exportJob.updateMany({
+        where: { queueJobId: input.jobId, NOT: { status: syncedStatus } },
+        data: {
+          status: syncedStatus,
+          fileName: exportResult?.fileName,
+          error: (failedReason as string | undefined) ?? null,
+          finishedAt: finishedOn ? new Date(finishedOn) : null,
+        },
+      });
+
       // Determine if the job is actively being processed or waiting
       const isActive = state === 'active';
       const isWaiting = state === 'waiting' || state === 'delayed';
@@ -291,11 +316,13 @@ export const videoRouter = createTRPCRouter({
         isCompleted,
         isFailed,
         progress: progress, // Could be a number (0-100) or an object
-        returnValue: returnValue, // This will contain the Base64 string on success
+        downloadUrl: isCompleted && exportResult ? getExportDownloadUrl(exportResult.jobId) : null,
+        fileName: exportResult?.fileName ?? null,
+        expiresAt: exportResult?.expiresAt ?? null,
         failedReason: failedReason, // Error message on failure
         timestamp: job.timestamp, // When the job was created
         processedOn: job.processedOn,
-        finishedOn: job.finishedOn,
+        finishedOn,
       };
     }),
 }); 
\ No newline at end of file
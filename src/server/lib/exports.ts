@@ -0,0 +1,96 @@
+import type { Readable } from 'stream';
+import { getStorage, RETENTION_MS, type ByteRange } from '~/server/lib/storage';
+
+// Finished renders are stored by the worker and served by /api/exports/[jobId].
+
+// BullMQ job IDs are numeric by default, custom IDs must stay key safe
+const JOB_ID_PATTERN = /^[\w-]+$/;
+
+// Worker return value, also stored next to the render as metadata
+export interface ExportResult {
+  jobId: string;
+  fileName: string; // Suggested download name
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const EXPORT_MIME_TYPES: Record<'mp4' | 'mkv', string> = {
+  mp4: 'video/mp4',
+  mkv: 'video/x-matroska',
+};
+
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId);
+}
+
+function assertValidJobId(jobId: string) {
+  if (!isValidJobId(jobId)) {
+    throw new Error(`Invalid export job ID: ${jobId}`);
+  }
+}
+
+const getExportMetadataKey = (jobId: string) => `${jobId}.json`;
+
+export function getExportDownloadUrl(jobId: string): string {
+  return `/api/exports/${encodeURIComponent(jobId)}`;
+}
+
+export function isExportExpired(result: ExportResult, now = Date.now()): boolean {
+  return new Date(result.expiresAt).getTime() <= now;
+}
+
+/**
+ * Reads the metadata of a render, or null if there is none for the job.
+ */
+export async function getExport(jobId: string): Promise<ExportResult | null> {
+  if (!isValidJobId(jobId)) return null;
+  const metadata = await getStorage().getBuffer('render', getExportMetadataKey(jobId));
+  return metadata ? JSON.parse(metadata.toString('utf8')) as ExportResult : null;
+}
+
+export async function createExportReadStream(jobId: string, range?: ByteRange): Promise<Readable> {
+  assertValidJobId(jobId);
+  return getStorage().createReadStream('render', jobId, range);
+}
+
+export async function deleteExport(jobId: string): Promise<void> {
+  assertValidJobId(jobId);
+  const storage = getStorage();
+  await Promise.all([
+    storage.delete('render', jobId),
+    storage.delete('render', getExportMetadataKey(jobId)),
+  ]);
+}
+
+/**
+ * Hands a finished render to the storage driver and records its metadata.
+ * The source file is consumed.
+ */
+export async function saveExport(
+  jobId: string,
+  sourcePath: string,
+  { fileName, mimeType }: { fileName: string; mimeType: string }
+): Promise<ExportResult> {
+  assertValidJobId(jobId);
+  const storage = getStorage();
+  await storage.putFile('render', jobId, sourcePath, { contentType: mimeType });
+
+  const stored = await storage.stat('render', jobId);
+  if (!stored) {
+    throw new Error(`Render of job ${jobId} was not stored`);
+  }
+
+  const createdAt = new Date();
+  const result: ExportResult = {
+    jobId,
+    fileName,
+    mimeType,
+    size: stored.size,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + RETENTION_MS.render).toISOString(),
+  };
+  await storage.putBuffer('render', getExportMetadataKey(jobId), JSON.stringify(result), { contentType: 'application/json' });
+  return result;
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { execSync } from 'child_process';
+import ffmpeg from 'fluent-ffmpeg';
+
+// Shared ffmpeg setup for the export worker and server-side audio processing
+
+export async function getFfmpegPath(): Promise<string> {
+  try {
+    const ffmpegStatic = await import('ffmpeg-static');
+    const resolvedPath: unknown = typeof ffmpegStatic === 'string' 
+      ? ffmpegStatic 
+      : ffmpegStatic.default;
+    
+    if (typeof resolvedPath === 'string') {
+      try {
+        await fs.access(resolvedPath);
+        console.log(`[ffmpeg] Found binary at dynamic import path: ${resolvedPath}`);
+        return resolvedPath;
+      } catch (err) {
+        console.warn(`[ffmpeg] Dynamic import path not accessible: ${resolvedPath}`);
+      }
+    }
+    try {
+      const pathFromWhich: string = execSync('which ffmpeg', { encoding: 'utf8' }).toString().trim();
+      console.log(`[ffmpeg] Found system binary at: ${pathFromWhich}`);
+      return pathFromWhich;
+    } catch (err) {
+      console.warn('[ffmpeg] Could not find ffmpeg in PATH');
+    }
+    const commonPaths = ['/usr/bin/ffmpeg', '/usr/local/bin/ffmpeg', '/opt/homebrew/bin/ffmpeg'];
+    for (const commonPath of commonPaths) {
+      try {
+        await fs.access(commonPath);
+        console.log(`[ffmpeg] Found binary at common path: ${commonPath}`);
+        return commonPath;
+      } catch {}
+    }
+    const moduleRootPath = path.resolve(process.cwd(), 'node_modules', '.pnpm', 'ffmpeg-static@5.2.0');
+    let binaryPath: string | undefined;
+    if (process.platform === 'darwin') {
+      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'darwin', process.arch === 'arm64' ? 'arm64' : 'x64', 'ffmpeg');
+    } else if (process.platform === 'linux') {
+      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'linux', 'x64', 'ffmpeg');
+    } else if (process.platform === 'win32') {
+      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'win32', 'x64', 'ffmpeg.exe');
+    }
+    if (binaryPath) {
+      try {
+        await fs.access(binaryPath);
+        console.log(`[ffmpeg] Found binary at resolved path: ${binaryPath}`);
+        return binaryPath;
+      } catch (err) {
+        console.warn(`[ffmpeg] Resolved path not accessible: ${binaryPath}`);
+      }
+    }
+    try {
+      const directPath = path.resolve(process.cwd(), 'node_modules', 'ffmpeg-static', 'ffmpeg');
+      await fs.access(directPath);
+      console.log(`[ffmpeg] Found binary at direct node_modules path: ${directPath}`);
+      return directPath;
+    } catch (err) {
+      console.warn('[ffmpeg] Direct node_modules path not accessible');
+    }
+    if (process.platform === 'darwin') {
+      try {
+        const homebrewPath = execSync('brew --prefix ffmpeg', { encoding: 'utf8' }).toString().trim();
+        if (homebrewPath) {
+          const brewBinaryPath = path.join(homebrewPath, 'bin', 'ffmpeg');
+          await fs.access(brewBinaryPath);
+          console.log(`[ffmpeg] Found binary installed via Homebrew: ${brewBinaryPath}`);
+          return brewBinaryPath;
+        }
+      } catch (err) {
+        console.warn('[ffmpeg] Could not find ffmpeg installed via Homebrew');
+      }
+    }
+    throw new Error('Could not resolve ffmpeg path through any method');
+  } catch (error) {
+    console.error('[ffmpeg] Error resolving path:', error);
+    throw new Error(`Failed to resolve ffmpeg path: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+
+let configured: Promise<string> | undefined;
+
+/**
+ * Resolves the ffmpeg binary once per process and points fluent-ffmpeg at it.
+ */
+export function configureFfmpeg(): Promise<string> {
+  configured ??= (async () => {
+    const ffmpegPath = await getFfmpegPath();
+    console.log('[ffmpeg] Using binary at', ffmpegPath);
+    ffmpeg.setFfmpegPath(ffmpegPath);
+    try {
+      await fs.chmod(ffmpegPath, 0o755);
+    } catch (err) {
+      console.warn('[ffmpeg] Could not set ffmpeg binary as executable:', err);
+    }
+    return ffmpegPath;
+  })().catch((error) => {
+    configured = undefined; // Retry on the next call
+    throw error;
+  });
+  return configured;
+}
+
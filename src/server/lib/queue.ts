@@ -1,12 +1,13 @@
 import { Queue } from 'bullmq';
 import IORedis from 'ioredis';
+import { env } from '~/env';
+import type { TranscriptionJobData, TranscriptionResult } from '~/server/lib/transcription';
 
 // Configuration for the Redis connection
 // BullMQ uses ioredis by default.
 // Ensure your Redis server is running and accessible.
-// This default configuration connects to localhost:6379.
-// For production, you'll likely use environment variables for these settings.
-const connection = new IORedis(process.env.REDIS_URL ?? 'redis://localhost:6379', {
+// REDIS_URL defaults to localhost:6379, see src/env.js.
+const connection = new IORedis(env.REDIS_URL, {
   maxRetriesPerRequest: null, // Important for BullMQ
 });
 
@@ -34,10 +35,33 @@ export const videoExportQueue = new Queue(VIDEO_EXPORT_QUEUE_NAME, {
   },
 });
 
+// Name for the transcription queue
+const TRANSCRIPTION_QUEUE_NAME = 'transcription';
+
+// Transcription jobs run in their own worker so long exports don't block them
+export const transcriptionQueue = new Queue<TranscriptionJobData, TranscriptionResult, string>(TRANSCRIPTION_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 2, // Provider hiccups are retried once; unreadable audio fails right away
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+    removeOnComplete: { // Results are picked up by the client, even after a reload
+      count: 1000,
+      age: 24 * 60 * 60,
+    },
+    removeOnFail: {
+      count: 5000,
+      age: 7 * 24 * 60 * 60,
+    },
+  },
+});
+
 // You can also export the connection if needed elsewhere, though often it's encapsulated.
 // export { connection as redisConnection };
 
-console.log(`BullMQ: Initialized queue '${VIDEO_EXPORT_QUEUE_NAME}'`);
+console.log(`BullMQ: Initialized queues '${VIDEO_EXPORT_QUEUE_NAME}' and '${TRANSCRIPTION_QUEUE_NAME}'`);
 
 // It's good practice to handle connection errors for Redis
 connection.on('connect', () => {
@@ -0,0 +1,74 @@
+import { Readable } from 'stream';
+import type { ByteRange } from '~/server/lib/storage';
+
+/**
+ * Parses a single "bytes=" range (multipart ranges are not supported).
+ * Returns null without a Range header and 'invalid' for unsatisfiable ranges.
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'invalid' | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return 'invalid';
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2]);
+    if (suffixLength === 0) return 'invalid';
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return 'invalid';
+  return { start, end };
+}
+
+// Content-Disposition with an ASCII fallback and the UTF-8 name (RFC 6266 / RFC 5987)
+export function contentDisposition(fileName: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Answers a GET/HEAD request for a stored object, honouring a single Range header.
+ * headers should contain the content type and caching headers of the object.
+ */
+export async function createRangeResponse({
+  request,
+  size,
+  headers,
+  includeBody,
+  openStream,
+}: {
+  request: Request;
+  size: number;
+  headers: Headers;
+  includeBody: boolean;
+  openStream: (range: ByteRange) => Promise<Readable>;
+}): Promise<Response> {
+  headers.set('Accept-Ranges', 'bytes');
+  const range = parseRange(request.headers.get('range'), size);
+
+  if (range === 'invalid') {
+    headers.set('Content-Range', `bytes */${size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+  headers.set('Content-Length', String(size === 0 ? 0 : end - start + 1));
+  if (range) {
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+  }
+  const status = range ? 206 : 200;
+
+  if (!includeBody || size === 0) {
+    return new Response(null, { status, headers });
+  }
+
+  const stream = await openStream({ start, end });
+  return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status, headers });
+}
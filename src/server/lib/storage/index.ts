@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { env } from '~/env';
+import { LocalStorageDriver } from './local';
+import { S3StorageDriver } from './s3';
+import type { ObjectClass, StorageClass, StorageDriver } from './types';
+
+export type * from './types';
+
+// Local root for the local driver and for intermediate workspaces (always local, see types.ts)
+export const STORAGE_LOCAL_ROOT = env.STORAGE_LOCAL_ROOT ?? path.join(os.tmpdir(), 'swiss-subtitles');
+const INTERMEDIATE_ROOT = path.join(STORAGE_LOCAL_ROOT, 'intermediate');
+
+const hours = (value: number) => value * 60 * 60 * 1000;
+
+// How long objects of each class are kept before the purge sweep removes them
+export const RETENTION_MS: Record<StorageClass, number> = {
+  upload: hours(env.STORAGE_RETENTION_UPLOAD_HOURS),
+  intermediate: hours(env.STORAGE_RETENTION_INTERMEDIATE_HOURS),
+  render: hours(env.STORAGE_RETENTION_RENDER_HOURS),
+};
+
+function createStorageDriver(): StorageDriver {
+  if (env.STORAGE_DRIVER === 's3') {
+    if (!env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is "s3"');
+    }
+    return new S3StorageDriver({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      // MinIO and most self-hosted S3 stand-ins need path-style URLs
+      forcePathStyle: (env.S3_FORCE_PATH_STYLE ?? (env.S3_ENDPOINT ? 'true' : 'false')) === 'true',
+      prefix: env.S3_KEY_PREFIX,
+    });
+  }
+  return new LocalStorageDriver(STORAGE_LOCAL_ROOT);
+}
+
+let storage: StorageDriver | undefined;
+
+/**
+ * Returns the configured storage driver for uploads and renders.
+ */
+export function getStorage(): StorageDriver {
+  storage ??= createStorageDriver();
+  return storage;
+}
+
+export interface Workspace {
+  dir: string;
+  /** Path for a file inside the workspace */
+  file: (name: string) => string;
+  /** Removes the workspace and everything in it */
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Creates a local directory for intermediate files of one job.
+ * Workspaces left behind by crashed workers are removed by the purge sweep.
+ */
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const dir = path.join(INTERMEDIATE_ROOT, `${name.replace(/[^\w-]/g, '_')}-${randomUUID().slice(0, 8)}`);
+  await fs.mkdir(dir, { recursive: true });
+  return {
+    dir,
+    file: (fileName: string) => path.join(dir, fileName),
+    cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Deletes everything older than its class retention, except uploads listed in
+ * retainedUploadKeys (e.g. videos of saved projects). Returns the number of
+ * removed objects per class.
+ */
+export async function purgeExpiredObjects(
+  { retainedUploadKeys = new Set<string>(), now = Date.now() }: { retainedUploadKeys?: Set<string>; now?: number } = {}
+): Promise<Record<StorageClass, number>> {
+  const removed: Record<StorageClass, number> = { upload: 0, intermediate: 0, render: 0 };
+  const driver = getStorage();
+
+  for (const objectClass of ['upload', 'render'] as ObjectClass[]) {
+    const objects = await driver.list(objectClass);
+    for (const object of objects) {
+      if (objectClass === 'upload' && retainedUploadKeys.has(object.key)) continue;
+      if (object.lastModified.getTime() + RETENTION_MS[objectClass] <= now) {
+        await driver.delete(objectClass, object.key);
+        removed[objectClass]++;
+      }
+    }
+  }
+
+  let workspaces: string[] = [];
+  try {
+    workspaces = await fs.readdir(INTERMEDIATE_ROOT);
+  } catch {
+    // Nothing has been written yet
+  }
+  for (const workspace of workspaces) {
+    const workspacePath = path.join(INTERMEDIATE_ROOT, workspace);
+    const stats = await fs.stat(workspacePath).catch(() => null);
+    if (stats && stats.mtime.getTime() + RETENTION_MS.intermediate <= now) {
+      await fs.rm(workspacePath, { recursive: true, force: true });
+      removed.intermediate++;
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,102 @@
+import { createReadStream as createFileReadStream, promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { ByteRange, LocalFile, ObjectClass, StorageDriver, StoredObjectInfo } from './types';
+
+const CLASS_DIRS: Record<ObjectClass, string> = {
+  upload: 'uploads',
+  render: 'renders',
+};
+
+const isNotFound = (err: unknown) => (err as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Stores objects as files below a root directory, one subdirectory per object class.
+ * The web server and the worker must share the root directory.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolvePath(objectClass: ObjectClass, key: string): string {
+    const classDir = path.join(this.rootDir, CLASS_DIRS[objectClass]);
+    const filePath = path.resolve(classDir, key);
+    // Keys come from IDs we generate, but never allow escaping the class directory
+    if (!filePath.startsWith(classDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async putFile(objectClass: ObjectClass, key: string, filePath: string): Promise<void> {
+    const targetPath = this.resolvePath(objectClass, key);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    try {
+      await fs.rename(filePath, targetPath);
+    } catch (err) {
+      // Different file system: copy, then remove the source
+      if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+      await fs.copyFile(filePath, targetPath);
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  async putBuffer(objectClass: ObjectClass, key: string, body: Buffer | string): Promise<void> {
+    const targetPath = this.resolvePath(objectClass, key);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.writeFile(targetPath, body);
+  }
+
+  async getBuffer(objectClass: ObjectClass, key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(objectClass, key));
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  async createReadStream(objectClass: ObjectClass, key: string, range?: ByteRange): Promise<Readable> {
+    return createFileReadStream(this.resolvePath(objectClass, key), range);
+  }
+
+  async stat(objectClass: ObjectClass, key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(objectClass, key));
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  async delete(objectClass: ObjectClass, key: string): Promise<void> {
+    await fs.rm(this.resolvePath(objectClass, key), { force: true });
+  }
+
+  async list(objectClass: ObjectClass): Promise<StoredObjectInfo[]> {
+    const classDir = path.join(this.rootDir, CLASS_DIRS[objectClass]);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(classDir, { recursive: true });
+    } catch (err) {
+      if (isNotFound(err)) return [];
+      throw err;
+    }
+
+    const objects: StoredObjectInfo[] = [];
+    for (const entry of entries) {
+      const stats = await fs.stat(path.join(classDir, entry)).catch(() => null);
+      if (stats?.isFile()) {
+        objects.push({ key: entry.split(path.sep).join('/'), size: stats.size, lastModified: stats.mtime });
+      }
+    }
+    return objects;
+  }
+
+  async getLocalFile(objectClass: ObjectClass, key: string): Promise<LocalFile> {
+    // Already on disk; the caller must not modify or delete it
+    return { path: this.resolvePath(objectClass, key), cleanup: async () => undefined };
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { createReadStream as createFileReadStream, createWriteStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { file as tmpFile } from 'tmp-promise';
+import type { ByteRange, LocalFile, ObjectClass, PutOptions, StorageDriver, StoredObjectInfo } from './types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean; // Required by MinIO unless it is set up for virtual-hosted buckets
+  prefix?: string; // Optional key prefix when sharing a bucket
+}
+
+const CLASS_PREFIXES: Record<ObjectClass, string> = {
+  upload: 'uploads/',
+  render: 'renders/',
+};
+
+const isNotFound = (err: unknown) =>
+  err instanceof NoSuchKey ||
+  err instanceof NotFound ||
+  (err as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404;
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, ...), one key prefix per object class.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined, // Fall back to the default AWS credential chain
+    });
+  }
+
+  private classPrefix(objectClass: ObjectClass): string {
+    return `${this.config.prefix ?? ''}${CLASS_PREFIXES[objectClass]}`;
+  }
+
+  private objectKey(objectClass: ObjectClass, key: string): string {
+    if (key.split('/').includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return `${this.classPrefix(objectClass)}${key}`;
+  }
+
+  async putFile(objectClass: ObjectClass, key: string, filePath: string, options?: PutOptions): Promise<void> {
+    const { size } = await fs.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(objectClass, key),
+      Body: createFileReadStream(filePath),
+      ContentLength: size, // Streams need an explicit length
+      ContentType: options?.contentType,
+    }));
+    await fs.rm(filePath, { force: true });
+  }
+
+  async putBuffer(objectClass: ObjectClass, key: string, body: Buffer | string, options?: PutOptions): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(objectClass, key),
+      Body: body,
+      ContentType: options?.contentType,
+    }));
+  }
+
+  async getBuffer(objectClass: ObjectClass, key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(objectClass, key),
+      }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  async createReadStream(objectClass: ObjectClass, key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(objectClass, key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    if (!(response.Body instanceof Readable)) {
+      throw new Error(`Unexpected response body for storage object ${key}`);
+    }
+    return response.Body;
+  }
+
+  async stat(objectClass: ObjectClass, key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(objectClass, key),
+      }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  async delete(objectClass: ObjectClass, key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(objectClass, key),
+    }));
+  }
+
+  async list(objectClass: ObjectClass): Promise<StoredObjectInfo[]> {
+    const prefix = this.classPrefix(objectClass);
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key.slice(prefix.length),
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async getLocalFile(objectClass: ObjectClass, key: string): Promise<LocalFile> {
+    // ffmpeg seeks in its input, so download the object instead of piping it
+    const tmp = await tmpFile({ postfix: `-${key.replace(/[^\w.-]/g, '_')}` });
+    try {
+      const stream = await this.createReadStream(objectClass, key);
+      await pipeline(stream, createWriteStream(tmp.path));
+    } catch (err) {
+      await tmp.cleanup();
+      throw err;
+    }
+    return { path: tmp.path, cleanup: () => tmp.cleanup() };
+  }
+}
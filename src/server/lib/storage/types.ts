@@ -0,0 +1,45 @@
+import type { Readable } from 'stream';
+
+// Objects stored by a driver: uploaded media and finished renders
+export type ObjectClass = 'upload' | 'render';
+
+// Intermediate files (PNGs, subtitle documents, encoder output) need real file
+// paths for ffmpeg, so they always live in a local per-job workspace
+export type StorageClass = ObjectClass | 'intermediate';
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+// A file on the local disk; cleanup removes it if it is only a temporary copy
+export interface LocalFile {
+  path: string;
+  cleanup: () => Promise<void>;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  /** Stores a local file. The source file is consumed (moved or deleted). */
+  putFile(objectClass: ObjectClass, key: string, filePath: string, options?: PutOptions): Promise<void>;
+  putBuffer(objectClass: ObjectClass, key: string, body: Buffer | string, options?: PutOptions): Promise<void>;
+  /** Returns null if the object does not exist */
+  getBuffer(objectClass: ObjectClass, key: string): Promise<Buffer | null>;
+  createReadStream(objectClass: ObjectClass, key: string, range?: ByteRange): Promise<Readable>;
+  /** Returns null if the object does not exist */
+  stat(objectClass: ObjectClass, key: string): Promise<StoredObjectInfo | null>;
+  delete(objectClass: ObjectClass, key: string): Promise<void>;
+  list(objectClass: ObjectClass): Promise<StoredObjectInfo[]>;
+  /** Makes an object available as a local file, e.g. as ffmpeg input */
+  getLocalFile(objectClass: ObjectClass, key: string): Promise<LocalFile>;
+}
@@ -0,0 +1,110 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { configureFfmpeg } from '~/server/lib/ffmpeg';
+import { AUDIO_EXTRACTION_FAILED } from './types';
+
+// Compressed formats accepted by Whisper-style APIs; both keep 10 minutes of speech well below 25 MB
+export type AudioFormat = 'flac' | 'opus';
+
+const AUDIO_FORMATS: Record<AudioFormat, { extension: string; codec: string; container: string; bitrate?: string }> = {
+  flac: { extension: 'flac', codec: 'flac', container: 'flac' },
+  opus: { extension: 'ogg', codec: 'libopus', container: 'ogg', bitrate: '32k' },
+};
+
+export interface AudioExtractionOptions {
+  channel: 'mix' | number; // Downmix all channels or use one (0-based), e.g. the dialogue channel
+  normalizeLoudness: boolean; // EBU R128 normalization, helps with quiet or uneven recordings
+  format: AudioFormat;
+}
+
+export const DEFAULT_AUDIO_EXTRACTION: AudioExtractionOptions = {
+  channel: 'mix',
+  normalizeLoudness: false,
+  format: 'flac',
+};
+
+// Whisper resamples to 16 kHz anyway, so anything higher only makes uploads bigger
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+// ffmpeg could not process the audio, e.g. when cutting chunks or detecting silences
+export class AudioProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioProcessingError';
+  }
+}
+
+// ffmpeg could not read the audio of the uploaded media at all
+export class AudioExtractionError extends AudioProcessingError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioExtractionError';
+  }
+}
+
+export const getAudioFileExtension = (format: AudioFormat) => AUDIO_FORMATS[format].extension;
+
+/**
+ * Encodes mono 16 kHz audio in the given format. Used for extracting audio from
+ * uploaded media and for cutting transcription chunks (with filters omitted).
+ */
+export async function encodeAudio(
+  inputPath: string,
+  outputPath: string,
+  {
+    format,
+    filters = [],
+    seekSeconds,
+    durationSeconds,
+  }: { format: AudioFormat; filters?: string[]; seekSeconds?: number; durationSeconds?: number }
+): Promise<void> {
+  await configureFfmpeg();
+  const { codec, container, bitrate } = AUDIO_FORMATS[format];
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath).noVideo();
+    if (seekSeconds !== undefined) command.seekInput(seekSeconds);
+    if (durationSeconds !== undefined) command.duration(durationSeconds);
+    if (filters.length > 0) command.audioFilters(filters);
+    command
+      .audioChannels(1)
+      .audioFrequency(TRANSCRIPTION_SAMPLE_RATE)
+      .audioCodec(codec)
+      .format(container);
+    if (bitrate) command.audioBitrate(bitrate);
+
+    command
+      .on('end', () => resolve())
+      .on('error', (err: Error, _stdout: string | null, stderr: string | null) => {
+        console.error('[transcription] ffmpeg audio encoding failed:', stderr);
+        reject(new AudioProcessingError(`Audio encoding failed: ${err.message}`));
+      })
+      .save(outputPath);
+  });
+}
+
+/**
+ * Extracts the audio track of an uploaded video (or audio) file for transcription,
+ * with channel selection/downmix and optional loudness normalization.
+ */
+export async function extractAudioForTranscription(
+  inputPath: string,
+  outputPath: string,
+  options: AudioExtractionOptions
+): Promise<void> {
+  const filters: string[] = [];
+  if (options.channel !== 'mix') {
+    // Picks one input channel; ffmpeg fails if the file has fewer channels
+    filters.push(`pan=mono|c0=c${options.channel}`);
+  }
+  if (options.normalizeLoudness) {
+    filters.push('loudnorm=I=-16:TP=-1.5:LRA=11');
+  }
+
+  console.log(`[transcription] Extracting audio (channel: ${options.channel}, loudnorm: ${options.normalizeLoudness}, format: ${options.format})`);
+  try {
+    await encodeAudio(inputPath, outputPath, { format: options.format, filters });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AudioExtractionError(`${AUDIO_EXTRACTION_FAILED}: ${message}`);
+  }
+}
@@ -0,0 +1,239 @@
+import { createReadStream, promises as fs } from 'fs';
+import ffmpeg from 'fluent-ffmpeg';
+import { env } from '~/env';
+import { configureFfmpeg } from '~/server/lib/ffmpeg';
+import { createWorkspace } from '~/server/lib/storage';
+import { AudioProcessingError, encodeAudio, getAudioFileExtension, type AudioFormat } from './audio';
+import type { TranscriptionProvider, TranscriptionSegment, WordTimestamp } from './types';
+
+// Whisper APIs reject uploads over 25 MB; stay below it with some margin
+const MAX_DIRECT_UPLOAD_BYTES = 24 * 1024 * 1024;
+// Cuts are moved back to the longest silence within this window before the target
+const SILENCE_SEARCH_WINDOW_SECONDS = 60;
+const SILENCE_NOISE_DB = -30;
+const MIN_SILENCE_SECONDS = 0.3;
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk {
+  start: number; // Audio range sent to the provider, including the overlap
+  end: number;
+  ownStart: number; // Range whose words are kept from this chunk
+  ownEnd: number;
+}
+
+/**
+ * Splits [0, duration] at silences close to every chunkSeconds and adds
+ * overlapSeconds of audio on both sides of each cut. Each chunk owns the
+ * range between its cuts, which decides where overlapping words are kept.
+ */
+export function planChunks(
+  duration: number,
+  silences: Silence[],
+  chunkSeconds: number,
+  overlapSeconds: number
+): AudioChunk[] {
+  const cuts = [0];
+  while (duration - cuts[cuts.length - 1]! > chunkSeconds) {
+    const previousCut = cuts[cuts.length - 1]!;
+    const target = previousCut + chunkSeconds;
+    const windowStart = Math.max(previousCut + chunkSeconds / 2, target - SILENCE_SEARCH_WINDOW_SECONDS);
+
+    // Longest silence whose middle lies in the window; later ones win ties
+    let cut = target;
+    let longest = 0;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      const length = silence.end - silence.start;
+      if (middle >= windowStart && middle <= target && length >= longest) {
+        cut = middle;
+        longest = length;
+      }
+    }
+    cuts.push(cut);
+  }
+  cuts.push(duration);
+
+  return cuts.slice(0, -1).map((cut, i) => ({
+    start: Math.max(0, cut - overlapSeconds),
+    end: Math.min(duration, cuts[i + 1]! + overlapSeconds),
+    ownStart: cut,
+    ownEnd: cuts[i + 1]!,
+  }));
+}
+
+const isOwned = (start: number, end: number, chunk: AudioChunk, isLast: boolean) => {
+  const middle = (start + end) / 2;
+  return middle >= chunk.ownStart && (isLast ? middle <= chunk.ownEnd : middle < chunk.ownEnd);
+};
+
+/**
+ * Shifts the segments of every chunk to absolute times and drops words (and
+ * segments) that fall into a neighbouring chunk's range, so words transcribed
+ * twice in an overlap appear only once.
+ */
+export function stitchChunkSegments(results: { chunk: AudioChunk; segments: TranscriptionSegment[] }[]): TranscriptionSegment[] {
+  const stitched: TranscriptionSegment[] = [];
+
+  results.forEach(({ chunk, segments }, index) => {
+    const isLast = index === results.length - 1;
+    const shift = (word: WordTimestamp): WordTimestamp => ({
+      ...word,
+      start: word.start + chunk.start,
+      end: word.end + chunk.start,
+    });
+
+    for (const segment of segments) {
+      const start = segment.start + chunk.start;
+      const end = segment.end + chunk.start;
+
+      if (!segment.words?.length) {
+        if (isOwned(start, end, chunk, isLast)) {
+          stitched.push({ ...segment, start, end, words: undefined });
+        }
+        continue;
+      }
+
+      const words = segment.words.map(shift);
+      const keptWords = words.filter(word => isOwned(word.start, word.end, chunk, isLast));
+      if (keptWords.length === 0) continue;
+      if (keptWords.length === words.length) {
+        stitched.push({ ...segment, start, end, words });
+        continue;
+      }
+
+      // Part of the segment was transcribed by the neighbouring chunk as well
+      stitched.push({
+        text: keptWords.map(word => word.word.trim()).join(' '),
+        start: keptWords[0]!.start,
+        end: keptWords[keptWords.length - 1]!.end,
+        words: keptWords,
+        confidence: segment.confidence,
+      });
+    }
+  });
+
+  return stitched.sort((a, b) => a.start - b.start);
+}
+
+// Runs fn over items with at most limit calls in flight, keeping the order of results
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+const parseTimestamp = (value: string) =>
+  value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+/**
+ * Finds silences in an audio or video file with ffmpeg's silencedetect filter.
+ * Also returns the duration, so no separate ffprobe call is needed.
+ */
+export async function detectSilences(filePath: string): Promise<{ duration: number; silences: Silence[] }> {
+  await configureFfmpeg();
+  return new Promise((resolve, reject) => {
+    const silences: Silence[] = [];
+    let duration = NaN;
+    let silenceStart: number | null = null;
+
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${MIN_SILENCE_SECONDS}`)
+      .format('null')
+      .output('-')
+      .on('codecData', (data: { duration: string }) => {
+        duration = parseTimestamp(data.duration);
+      })
+      .on('stderr', (line: string) => {
+        const start = /silence_start: (-?[\d.]+)/.exec(line);
+        const end = /silence_end: ([\d.]+)/.exec(line);
+        if (start) silenceStart = Math.max(0, Number(start[1]));
+        if (end && silenceStart !== null) {
+          silences.push({ start: silenceStart, end: Number(end[1]) });
+          silenceStart = null;
+        }
+      })
+      .on('end', () => {
+        if (!Number.isFinite(duration)) {
+          return reject(new AudioProcessingError('Could not determine the audio duration'));
+        }
+        // A silence running until the end of the file has no silence_end line
+        if (silenceStart !== null) silences.push({ start: silenceStart, end: duration });
+        resolve({ duration, silences });
+      })
+      .on('error', (err: Error) => reject(new AudioProcessingError(`Silence detection failed: ${err.message}`)))
+      .run();
+  });
+}
+
+/**
+ * Transcribes an audio (or video) file of any length. Files that fit the
+ * provider's upload limit are sent as they are; longer ones are split at
+ * silences into overlapping chunks (encoded in the given format) that are
+ * transcribed with bounded concurrency and stitched back together.
+ * onChunkDone is called after each transcribed chunk (a short file is one chunk).
+ */
+export async function transcribeAudioFile(
+  provider: TranscriptionProvider,
+  filePath: string,
+  options: {
+    fileName: string;
+    language?: string;
+    prompt?: string;
+    format?: AudioFormat;
+    onChunkDone?: (completedChunks: number, totalChunks: number) => void | Promise<void>;
+  }
+): Promise<TranscriptionSegment[]> {
+  const chunkSeconds = env.TRANSCRIPTION_CHUNK_SECONDS;
+  const { size } = await fs.stat(filePath);
+  const { duration, silences } = await detectSilences(filePath);
+
+  if (size <= MAX_DIRECT_UPLOAD_BYTES && duration <= chunkSeconds) {
+    const segments = await provider.transcribe({
+      audio: createReadStream(filePath),
+      fileName: options.fileName,
+      language: options.language,
+      prompt: options.prompt,
+    });
+    await options.onChunkDone?.(1, 1);
+    return segments;
+  }
+
+  const chunks = planChunks(duration, silences, chunkSeconds, env.TRANSCRIPTION_CHUNK_OVERLAP_SECONDS);
+  console.log(`[transcription] Splitting ${duration.toFixed(1)}s of audio into ${chunks.length} chunks`);
+
+  const format = options.format ?? 'flac';
+  const workspace = await createWorkspace('transcription');
+  let completedChunks = 0;
+  try {
+    const results = await mapWithConcurrency(chunks, env.TRANSCRIPTION_CONCURRENCY, async (chunk, index) => {
+      const chunkFileName = `chunk-${index}.${getAudioFileExtension(format)}`;
+      const chunkPath = workspace.file(chunkFileName);
+      await encodeAudio(filePath, chunkPath, { format, seekSeconds: chunk.start, durationSeconds: chunk.end - chunk.start });
+      const segments = await provider.transcribe({
+        audio: createReadStream(chunkPath),
+        fileName: chunkFileName,
+        language: options.language,
+        prompt: options.prompt,
+      });
+      await fs.rm(chunkPath, { force: true });
+      console.log(`[transcription] Chunk ${index + 1}/${chunks.length} done (${segments.length} segments)`);
+      await options.onChunkDone?.(++completedChunks, chunks.length);
+      return { chunk, segments };
+    });
+    return stitchChunkSegments(results);
+  } finally {
+    await workspace.cleanup();
+  }
+}
@@ -0,0 +1,64 @@
+import type { DiarizationInput, DiarizationProvider, SpeakerTurn, TranscriptionSegment } from './types';
+
+// A pause this long between two segments is taken as a change of speaker
+const TURN_PAUSE_SECONDS = 0.8;
+
+export const speakerId = (index: number) => `speaker_${index + 1}`;
+
+/**
+ * Stand-in for a real diarization model, which needs the audio and is not
+ * bundled. It guesses speaker changes from the transcript alone: after a
+ * question or a longer pause the next speaker takes over, in turn. Good enough
+ * for interviews as a starting point; speakers can be corrected in the editor.
+ */
+export class LocalDiarizationProvider implements DiarizationProvider {
+  readonly name = 'local';
+
+  async diarize({ segments, speakerCount }: DiarizationInput): Promise<SpeakerTurn[]> {
+    const turns: SpeakerTurn[] = [];
+    let speakerIndex = 0;
+    segments.forEach((segment, index) => {
+      const previous = segments[index - 1];
+      const changesSpeaker = previous !== undefined && (
+        segment.start - previous.end >= TURN_PAUSE_SECONDS || /\?\s*$/.test(previous.text)
+      );
+      if (changesSpeaker) {
+        speakerIndex = (speakerIndex + 1) % speakerCount;
+      }
+
+      const turn = turns[turns.length - 1];
+      if (turn && !changesSpeaker) {
+        turn.end = segment.end;
+      } else {
+        turns.push({ speaker: speakerId(speakerIndex), start: segment.start, end: segment.end });
+      }
+    });
+    return turns;
+  }
+}
+
+/**
+ * Gives every segment the speaker whose turns overlap it the most. Segments
+ * outside all turns stay without a speaker.
+ */
+export function assignSpeakers(segments: TranscriptionSegment[], turns: SpeakerTurn[]): TranscriptionSegment[] {
+  return segments.map(segment => {
+    const overlapBySpeaker = new Map<string, number>();
+    for (const turn of turns) {
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) ?? 0) + overlap);
+      }
+    }
+
+    let speaker: string | undefined;
+    let maxOverlap = 0;
+    for (const [candidate, overlap] of overlapBySpeaker) {
+      if (overlap > maxOverlap) {
+        speaker = candidate;
+        maxOverlap = overlap;
+      }
+    }
+    return speaker ? { ...segment, speaker } : segment;
+  });
+}
@@ -0,0 +1,98 @@
+import type { TranscriptionSegment, WordTimestamp } from './types';
+
+// A glossary term: the preferred spelling and known misrecognitions of it
+export interface GlossaryTerm {
+  term: string;
+  variants: string[];
+}
+
+// Whisper only looks at the last 224 tokens of the prompt; keep well below that
+const MAX_PROMPT_LENGTH = 600;
+
+/**
+ * Builds the transcription prompt from the glossary. Whisper imitates the
+ * spelling of the prompt, so listing the terms makes it prefer them.
+ */
+export function buildGlossaryPrompt(glossary: GlossaryTerm[]): string | undefined {
+  const terms = [...new Set(glossary.map(entry => entry.term.trim()).filter(Boolean))];
+  if (terms.length === 0) return undefined;
+
+  let prompt = 'Schweizerdeutsch. Begriffe:';
+  for (const term of terms) {
+    const next = `${prompt} ${term},`;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    prompt = next;
+  }
+  return prompt.replace(/,$/, '.');
+}
+
+// Lowercased token without surrounding punctuation, for comparing words
+const normalizeToken = (token: string) => token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface Replacement {
+  tokens: string[]; // Normalized tokens of the misrecognition
+  pattern: RegExp; // Matches the misrecognition as whole words in text
+  term: string;
+}
+
+// Every variant (and the term itself, to fix its casing) maps to the term; longer variants first
+function buildReplacements(glossary: GlossaryTerm[]): Replacement[] {
+  const replacements: Replacement[] = [];
+  for (const { term, variants } of glossary) {
+    const preferred = term.trim();
+    if (!preferred) continue;
+    for (const variant of [preferred, ...variants]) {
+      const tokens = variant.trim().split(/\s+/).map(normalizeToken).filter(Boolean);
+      if (tokens.length === 0) continue;
+      const body = variant.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+      replacements.push({
+        tokens,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'giu'),
+        term: preferred,
+      });
+    }
+  }
+  return replacements.sort((a, b) => b.tokens.length - a.tokens.length);
+}
+
+// Replaces misrecognized word sequences, merging multi-word matches into one word
+function correctWords(words: WordTimestamp[], replacements: Replacement[]): WordTimestamp[] {
+  const corrected: WordTimestamp[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const match = replacements.find(({ tokens }) =>
+      tokens.every((token, offset) => normalizeToken(words[i + offset]?.word ?? '') === token)
+    );
+    if (!match) {
+      corrected.push(words[i]!);
+      i++;
+      continue;
+    }
+
+    const first = words[i]!;
+    const last = words[i + match.tokens.length - 1]!;
+    // Keep leading whitespace and trailing punctuation of the recognized words
+    const leading = /^\s*/.exec(first.word)?.[0] ?? '';
+    const trailing = /[^\p{L}\p{N}]*$/u.exec(last.word.trimEnd())?.[0] ?? '';
+    corrected.push({ ...first, word: `${leading}${match.term}${trailing}`, end: last.end });
+    i += match.tokens.length;
+  }
+  return corrected;
+}
+
+/**
+ * Post-correction pass: rewrites known misrecognitions to the glossary's
+ * spelling in the segment text and in the word timestamps.
+ */
+export function applyGlossary(segments: TranscriptionSegment[], glossary: GlossaryTerm[]): TranscriptionSegment[] {
+  const replacements = buildReplacements(glossary);
+  if (replacements.length === 0) return segments;
+
+  return segments.map(segment => ({
+    ...segment,
+    text: replacements.reduce((text, { pattern, term }) => text.replace(pattern, () => term), segment.text),
+    words: segment.words ? correctWords(segment.words, replacements) : undefined,
+  }));
+}
@@ -0,0 +1,74 @@
+import type { Readable } from 'stream';
+import { mapVerboseJson, verboseJsonSchema } from './verboseJson';
+import { TranscriptionError, type TranscriptionInput, type TranscriptionProvider, type TranscriptionSegment } from './types';
+
+export interface HttpTranscriptionConfig {
+  url: string; // Full endpoint URL, e.g. http://localhost:8000/v1/audio/transcriptions
+  model: string;
+  apiKey?: string; // Sent as a bearer token if set
+  timeoutMs: number;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Transcribes with any server that implements OpenAI's transcription endpoint
+ * and returns verbose_json, e.g. a self-hosted faster-whisper server running a
+ * dialect-tuned model.
+ */
+export class HttpTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'http';
+
+  constructor(private readonly config: HttpTranscriptionConfig) {}
+
+  async transcribe({ audio, fileName, language, prompt }: TranscriptionInput): Promise<TranscriptionSegment[]> {
+    const form = new FormData();
+    form.append('file', new Blob([await readAll(audio)]), fileName);
+    form.append('model', this.config.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('timestamp_granularities[]', 'segment');
+    if (language) {
+      form.append('language', language);
+    }
+    if (prompt) {
+      form.append('prompt', prompt);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        body: form,
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TranscriptionError(`Transcription server at ${this.config.url} is not reachable: ${message}`, this.name);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      console.error('Transcription server error:', response.status, body);
+      throw new TranscriptionError(
+        `Transcription server error (${response.status}): ${body.slice(0, 500) || response.statusText}`,
+        this.name,
+        response.status
+      );
+    }
+
+    const parsed = verboseJsonSchema.safeParse(await response.json().catch(() => null));
+    if (!parsed.success) {
+      console.error('Invalid transcript response from transcription server:', parsed.error.message);
+      throw new TranscriptionError('Invalid transcript response: Expected verbose_json with segments.', this.name);
+    }
+    return mapVerboseJson(parsed.data);
+  }
+}
@@ -0,0 +1,69 @@
+import { env } from '~/env';
+import { LocalDiarizationProvider } from './diarization';
+import { HttpTranscriptionProvider } from './http';
+import { OpenAITranscriptionProvider } from './openai';
+import type { DiarizationProvider, TranscriptionProvider } from './types';
+
+export * from './types';
+export { transcribeAudioFile } from './chunking';
+export { applyGlossary, buildGlossaryPrompt, type GlossaryTerm } from './glossary';
+export { assignSpeakers, LocalDiarizationProvider } from './diarization';
+export { getRewriteModel, realignWords, rewriteToStandardGerman } from './standardGerman';
+export {
+  AudioExtractionError,
+  AudioProcessingError,
+  DEFAULT_AUDIO_EXTRACTION,
+  extractAudioForTranscription,
+  getAudioFileExtension,
+  type AudioExtractionOptions,
+  type AudioFormat,
+} from './audio';
+
+function createTranscriptionProvider(): TranscriptionProvider {
+  if (env.TRANSCRIPTION_PROVIDER === 'http') {
+    if (!env.TRANSCRIPTION_HTTP_URL) {
+      throw new Error('TRANSCRIPTION_HTTP_URL must be set when TRANSCRIPTION_PROVIDER is "http"');
+    }
+    return new HttpTranscriptionProvider({
+      url: env.TRANSCRIPTION_HTTP_URL,
+      model: env.TRANSCRIPTION_MODEL,
+      apiKey: env.TRANSCRIPTION_HTTP_API_KEY,
+      timeoutMs: env.TRANSCRIPTION_HTTP_TIMEOUT_SECONDS * 1000,
+    });
+  }
+  if (!env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY must be set when TRANSCRIPTION_PROVIDER is "openai"');
+  }
+  return new OpenAITranscriptionProvider({
+    apiKey: env.OPENAI_API_KEY,
+    model: env.TRANSCRIPTION_MODEL,
+  });
+}
+
+let transcriptionProvider: TranscriptionProvider | undefined;
+
+/**
+ * Returns the configured transcription provider.
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  transcriptionProvider ??= createTranscriptionProvider();
+  return transcriptionProvider;
+}
+
+// Only the local stand-in exists so far; model-based providers are added to DIARIZATION_PROVIDER
+function createDiarizationProvider(): DiarizationProvider {
+  switch (env.DIARIZATION_PROVIDER) {
+    case 'local':
+      return new LocalDiarizationProvider();
+  }
+}
+
+let diarizationProvider: DiarizationProvider | undefined;
+
+/**
+ * Returns the configured diarization provider.
+ */
+export function getDiarizationProvider(): DiarizationProvider {
+  diarizationProvider ??= createDiarizationProvider();
+  return diarizationProvider;
+}
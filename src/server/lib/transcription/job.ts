@@ -0,0 +1,104 @@
+import { env } from '~/env';
+import { getAsset, getAssetLocalFile } from '~/server/lib/uploads';
+import { createWorkspace, type LocalFile, type Workspace } from '~/server/lib/storage';
+import { DEFAULT_AUDIO_EXTRACTION, extractAudioForTranscription, getAudioFileExtension } from './audio';
+import { transcribeAudioFile } from './chunking';
+import { applyGlossary, buildGlossaryPrompt } from './glossary';
+import { assignSpeakers } from './diarization';
+import { getDiarizationProvider, getTranscriptionProvider } from './index';
+import { rewriteToStandardGerman } from './standardGerman';
+import type { TranscriptionJobData, TranscriptionProgress, TranscriptionResult } from './types';
+
+// Share of the progress bar used by audio extraction and by the Standard German rewrite
+const EXTRACTION_PROGRESS = 10;
+const REWRITE_PROGRESS = 10;
+
+/**
+ * Transcribes the uploaded media of a transcription job. Audio is extracted
+ * from videos first; speakers are detected if the job asks for them, and for
+ * Standard German output the dialect transcript is rewritten afterwards. Progress is reported after extraction, per chunk and
+ * per rewrite batch.
+ */
+export async function runTranscriptionJob(
+  data: TranscriptionJobData,
+  reportProgress: (progress: TranscriptionProgress) => Promise<void>
+): Promise<TranscriptionResult> {
+  const format = env.TRANSCRIPTION_AUDIO_FORMAT;
+  const language = data.outputLanguage ?? 'gsw';
+  const transcriptionProgressEnd = language === 'deu' ? 100 - REWRITE_PROGRESS : 100;
+  const assetId = data.videoAssetId ?? data.audioAssetId;
+  if (!assetId) {
+    throw new Error('Transcription job has neither a video nor an audio asset');
+  }
+  const asset = await getAsset(assetId);
+  if (!asset) {
+    throw new Error(`Uploaded asset ${assetId} not found. Please upload the file again.`);
+  }
+
+  let workspace: Workspace | null = null;
+  let mediaFile: LocalFile | null = null;
+  try {
+    await reportProgress({ stage: 'extracting', completedChunks: 0, totalChunks: null, percent: 0 });
+    // ffmpeg needs a local file path
+    mediaFile = await getAssetLocalFile(assetId);
+
+    // Extract mono 16 kHz audio from uploaded videos in a compressed format
+    let audioPath = mediaFile.path;
+    let audioFileName = asset.fileName;
+    if (data.videoAssetId) {
+      workspace = await createWorkspace(`transcribe-${assetId}`);
+      audioFileName = `audio.${getAudioFileExtension(format)}`;
+      audioPath = workspace.file(audioFileName);
+      await extractAudioForTranscription(mediaFile.path, audioPath, {
+        ...DEFAULT_AUDIO_EXTRACTION,
+        ...data.audio,
+        format,
+      });
+    }
+    await reportProgress({ stage: 'transcribing', completedChunks: 0, totalChunks: null, percent: EXTRACTION_PROGRESS });
+
+    // Transcribe with the configured provider, in chunks if the audio is too long for a single request
+    const provider = getTranscriptionProvider();
+    console.log(`[transcription] Using transcription provider "${provider.name}"`);
+    const glossary = data.glossary ?? [];
+    const segments = await transcribeAudioFile(provider, audioPath, {
+      fileName: audioFileName,
+      format,
+      prompt: buildGlossaryPrompt(glossary),
+      onChunkDone: (completedChunks, totalChunks) => reportProgress({
+        stage: 'transcribing',
+        completedChunks,
+        totalChunks,
+        percent: Math.round(EXTRACTION_PROGRESS + (transcriptionProgressEnd - EXTRACTION_PROGRESS) * completedChunks / totalChunks),
+      }),
+    });
+    // Rewrite misrecognitions the prompt did not prevent
+    let dialectSegments = applyGlossary(segments, glossary);
+
+    // Speakers are assigned before the rewrite so both transcripts carry them
+    if (data.speakerCount) {
+      await reportProgress({ stage: 'diarizing', completedChunks: 0, totalChunks: null, percent: transcriptionProgressEnd });
+      const diarizationProvider = getDiarizationProvider();
+      console.log(`[transcription] Detecting ${data.speakerCount} speakers with diarization provider "${diarizationProvider.name}"`);
+      const turns = await diarizationProvider.diarize({ audioPath, segments: dialectSegments, speakerCount: data.speakerCount });
+      dialectSegments = assignSpeakers(dialectSegments, turns);
+    }
+    if (language === 'gsw') {
+      return { segments: dialectSegments, language };
+    }
+
+    await reportProgress({ stage: 'rewriting', completedChunks: 0, totalChunks: null, percent: transcriptionProgressEnd });
+    const standardSegments = await rewriteToStandardGerman(dialectSegments, {
+      onBatchDone: (completedBatches, totalBatches) => reportProgress({
+        stage: 'rewriting',
+        completedChunks: completedBatches,
+        totalChunks: totalBatches,
+        percent: Math.round(transcriptionProgressEnd + REWRITE_PROGRESS * completedBatches / totalBatches),
+      }),
+    });
+    return { segments: standardSegments, language, dialectSegments };
+  } finally {
+    await mediaFile?.cleanup();
+    await workspace?.cleanup();
+  }
+}
@@ -0,0 +1,49 @@
+import OpenAI, { toFile } from 'openai';
+import { mapVerboseJson, verboseJsonSchema } from './verboseJson';
+import { TranscriptionError, type TranscriptionInput, type TranscriptionProvider, type TranscriptionSegment } from './types';
+
+export interface OpenAITranscriptionConfig {
+  apiKey: string;
+  model: string; // e.g. whisper-1
+}
+
+// Transcribes with OpenAI's hosted Whisper API
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  private readonly client: OpenAI;
+
+  constructor(private readonly config: OpenAITranscriptionConfig) {
+    this.client = new OpenAI({ apiKey: config.apiKey });
+  }
+
+  async transcribe({ audio, fileName, language, prompt }: TranscriptionInput): Promise<TranscriptionSegment[]> {
+    // The filename extension tells the API which format the audio is in
+    const file = await toFile(audio, fileName);
+
+    let response: unknown;
+    try {
+      response = await this.client.audio.transcriptions.create({
+        model: this.config.model,
+        file,
+        language,
+        prompt,
+        response_format: 'verbose_json', // Detailed response with segments
+        timestamp_granularities: ['word', 'segment'],
+      });
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        const status = error.status as number | undefined;
+        console.error('OpenAI API Error:', status, error.message, error.code, error.type);
+        throw new TranscriptionError(`OpenAI API Error (${status}): ${error.message}`, this.name, status);
+      }
+      throw error;
+    }
+
+    const parsed = verboseJsonSchema.safeParse(response);
+    if (!parsed.success) {
+      console.error('Invalid transcript response from OpenAI:', response);
+      throw new TranscriptionError('Invalid transcript response: Expected object with segments from OpenAI API.', this.name);
+    }
+    return mapVerboseJson(parsed.data);
+  }
+}
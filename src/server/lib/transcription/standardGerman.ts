@@ -0,0 +1,91 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { env } from '~/env';
+import { distributeWords, tokenizeText } from '~/utils/wordTiming';
+import type { TranscriptionSegment, WordTimestamp } from './types';
+
+// Segments rewritten per request; neighbours in the same batch give the model context
+const REWRITE_BATCH_SIZE = 40;
+
+const SYSTEM_PROMPT = [
+  'Du übersetzt Untertitel aus schweizerdeutschem Dialekt in Schweizer Hochdeutsch.',
+  'Jede Zeile hat eine Nummer. Gib für jede Nummer genau eine Übersetzung zurück, ohne Zeilen zusammenzufassen oder aufzuteilen.',
+  'Bleib nahe am Gesagten und halte die Zeilen kurz wie Untertitel.',
+  'Schreibe "ss" statt "ß". Eigennamen und Ortsnamen bleiben unverändert.',
+].join(' ');
+
+const rewriteSchema = z.object({
+  segments: z.array(z.object({
+    index: z.number().int(),
+    text: z.string(),
+  })),
+});
+
+let rewriteModel: LanguageModel | undefined;
+
+/**
+ * Returns the chat model used for rewriting, configured by TRANSCRIPTION_REWRITE_MODEL.
+ */
+export function getRewriteModel(): LanguageModel {
+  if (!env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY must be set to rewrite transcriptions into Standard German');
+  }
+  rewriteModel ??= createOpenAI({ apiKey: env.OPENAI_API_KEY })(env.TRANSCRIPTION_REWRITE_MODEL);
+  return rewriteModel;
+}
+
+/**
+ * Spreads the words of a rewritten text over the time the original words
+ * covered (or the whole segment), proportionally to their length.
+ */
+export function realignWords(text: string, segment: TranscriptionSegment): WordTimestamp[] {
+  const start = segment.words?.[0]?.start ?? segment.start;
+  const end = segment.words?.[segment.words.length - 1]?.end ?? segment.end;
+  return distributeWords(tokenizeText(text), start, end);
+}
+
+/**
+ * Rewrites dialect segments into Standard German with an LLM. Segment timing
+ * stays as it is; word timestamps are re-aligned proportionally. Segments the
+ * model skipped keep their dialect text. Pass a model to override the
+ * configured one, e.g. a mock.
+ */
+export async function rewriteToStandardGerman(
+  segments: TranscriptionSegment[],
+  { model = getRewriteModel(), onBatchDone }: {
+    model?: LanguageModel;
+    onBatchDone?: (completedBatches: number, totalBatches: number) => void | Promise<void>;
+  } = {}
+): Promise<TranscriptionSegment[]> {
+  const rewritten = [...segments];
+  const totalBatches = Math.ceil(segments.length / REWRITE_BATCH_SIZE);
+
+  for (let batch = 0; batch < totalBatches; batch++) {
+    const offset = batch * REWRITE_BATCH_SIZE;
+    const lines = segments
+      .slice(offset, offset + REWRITE_BATCH_SIZE)
+      .map((segment, i) => `${offset + i}: ${segment.text.trim()}`);
+
+    const { object } = await generateObject({
+      model,
+      schema: rewriteSchema,
+      system: SYSTEM_PROMPT,
+      prompt: lines.join('\n'),
+    });
+
+    const done = new Set<number>();
+    for (const { index, text } of object.segments) {
+      const segment = segments[index];
+      if (!segment || index < offset || index >= offset + lines.length || !text.trim()) continue;
+      rewritten[index] = { ...segment, text: text.trim(), words: realignWords(text, segment) };
+      done.add(index);
+    }
+    if (done.size < lines.length) {
+      console.warn(`[transcription] Rewrite batch ${batch + 1}/${totalBatches} left ${lines.length - done.size} segment(s) in dialect`);
+    }
+    await onBatchDone?.(batch + 1, totalBatches);
+  }
+
+  return rewritten;
+}
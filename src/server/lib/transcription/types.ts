@@ -0,0 +1,100 @@
+import type { Readable } from 'stream';
+import type { GlossaryTerm } from './glossary';
+
+export interface WordTimestamp {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number; // 0-1, if the provider returned it
+}
+
+// Whisper's decoding metrics of a segment (see verbose_json)
+export interface SegmentConfidence {
+  avgLogprob?: number; // Average token log probability; below -1 is unreliable
+  noSpeechProb?: number; // Probability that the segment is not speech
+  compressionRatio?: number; // Above 2.4 usually means repeated, hallucinated text
+}
+
+export interface TranscriptionSegment {
+  text: string;
+  start: number; // start time in seconds
+  end: number;   // end time in seconds
+  words?: WordTimestamp[]; // Word timestamps, if the provider returned them
+  confidence?: SegmentConfidence;
+  speaker?: string; // Speaker ID from diarization, e.g. "speaker_1"
+}
+
+export interface TranscriptionInput {
+  audio: Readable;
+  fileName: string; // Providers detect the format from the extension, e.g. audio.wav
+  language?: string; // ISO 639-1 hint; omitted lets the model detect it
+  prompt?: string; // Vocabulary hint, see buildGlossaryPrompt
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(input: TranscriptionInput): Promise<TranscriptionSegment[]>;
+}
+
+// Time span in which one speaker talks
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+export interface DiarizationInput {
+  audioPath: string; // Local audio file of the whole recording
+  segments: TranscriptionSegment[]; // The transcript, for providers that work on text and timing
+  speakerCount: number; // Expected number of speakers
+}
+
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(input: DiarizationInput): Promise<SpeakerTurn[]>;
+}
+
+// Subtitle language of a transcription: written Swiss German dialect as spoken,
+// or Standard German rewritten from it (ISO 639-2, like SubtitleTrack.language)
+export type TranscriptionOutputLanguage = 'gsw' | 'deu';
+
+// Data of a job on the transcription queue: either the uploaded video (audio is
+// extracted on the server) or a WAV the browser extracted itself, as a fallback
+export interface TranscriptionJobData {
+  videoAssetId?: string;
+  audioAssetId?: string;
+  audio?: {
+    channel: 'mix' | number; // Downmix all channels or use one (0-based)
+    normalizeLoudness: boolean;
+  };
+  glossary?: GlossaryTerm[]; // The project's glossary, used as prompt and for post-correction
+  outputLanguage?: TranscriptionOutputLanguage; // Defaults to 'gsw'
+  speakerCount?: number; // Detect this many speakers; omitted skips diarization
+}
+
+// Result of a transcription job; Standard German results keep the dialect original
+export interface TranscriptionResult {
+  segments: TranscriptionSegment[];
+  language: TranscriptionOutputLanguage;
+  dialectSegments?: TranscriptionSegment[]; // Same segment timing as segments
+}
+
+// Job progress, updated after audio extraction and after every transcribed chunk
+export interface TranscriptionProgress {
+  stage: 'extracting' | 'transcribing' | 'diarizing' | 'rewriting';
+  completedChunks: number;
+  totalChunks: number | null; // Known once the audio has been analysed
+  percent: number;
+}
+
+// Failed jobs whose reason starts with this could not read the audio; the client
+// then extracts it in the browser instead
+export const AUDIO_EXTRACTION_FAILED = 'Audio extraction failed';
+
+// Failure reported by a provider; status is the HTTP status if there was one
+export class TranscriptionError extends Error {
+  constructor(message: string, public readonly provider: string, public readonly status?: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { alignWordsToText, assignWordsToSegments } from '~/utils/wordTiming';
+import type { SegmentConfidence, TranscriptionSegment } from './types';
+
+const wordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  probability: z.number().nullish(), // Only some servers (e.g. faster-whisper) return it
+});
+
+// The parts of OpenAI's verbose_json response we use. Self-hosted servers
+// (e.g. faster-whisper) follow the same schema but may nest words in segments.
+export const verboseJsonSchema = z.object({
+  text: z.string().optional(),
+  language: z.string().optional(),
+  duration: z.number().optional(),
+  segments: z.array(z.object({
+    start: z.number(),
+    end: z.number(),
+    text: z.string(),
+    avg_logprob: z.number().nullish(),
+    no_speech_prob: z.number().nullish(),
+    compression_ratio: z.number().nullish(),
+    words: z.array(wordSchema).nullish(),
+  })),
+  words: z.array(wordSchema).nullish(),
+});
+
+export type VerboseJsonResponse = z.infer<typeof verboseJsonSchema>;
+
+type VerboseJsonSegment = VerboseJsonResponse['segments'][number];
+
+// Whisper's decoding metrics of a segment, if the response has them
+function mapConfidence(seg: VerboseJsonSegment): SegmentConfidence | undefined {
+  if (seg.avg_logprob == null && seg.no_speech_prob == null && seg.compression_ratio == null) return undefined;
+  return {
+    avgLogprob: seg.avg_logprob ?? undefined,
+    noSpeechProb: seg.no_speech_prob ?? undefined,
+    compressionRatio: seg.compression_ratio ?? undefined,
+  };
+}
+
+/**
+ * Maps a verbose_json response to segments with their word timestamps and
+ * confidence.
+ */
+export function mapVerboseJson(response: VerboseJsonResponse): TranscriptionSegment[] {
+  const allWords = response.words ?? [];
+  if (allWords.length === 0 && !response.segments.some(seg => seg.words?.length)) {
+    console.warn('Transcription response has no word timestamps. Word-level timing will not be available.');
+  }
+
+  // Top-level words go to the segment they overlap most, so words straddling a boundary are kept
+  const assignedWords = assignWordsToSegments(response.segments, allWords);
+
+  const segments = response.segments.map((seg, index): TranscriptionSegment => {
+    // Prefer words nested in the segment
+    const segmentWords = seg.words?.length ? seg.words : assignedWords[index]!;
+    const text = seg.text.trim();
+
+    return {
+      text,
+      start: seg.start,
+      end: seg.end,
+      // Reconciled so the words join back into the text, punctuation included
+      words: segmentWords.length > 0
+        ? alignWordsToText(
+            text,
+            segmentWords.map(({ word, start, end, probability }) => ({ word, start, end, probability: probability ?? undefined })),
+            seg.start,
+            seg.end
+          )
+        : undefined,
+      confidence: mapConfidence(seg),
+    };
+  });
+
+  if (segments.length === 0) {
+    console.log('Transcription returned 0 segments.', response.text ? `Full text: ${response.text}` : 'No text either.');
+  }
+  return segments;
+}
@@ -0,0 +1,199 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import type { IncomingMessage } from 'http';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import formidable from 'formidable';
+import { env } from '~/env';
+import { createWorkspace, getStorage, type ByteRange, type LocalFile } from '~/server/lib/storage';
+
+// Uploaded media is stored under a random asset ID so large files never travel
+// through tRPC or Redis as base64.
+
+// Default limit of 2 GB, configurable in MB
+export const MAX_UPLOAD_SIZE_BYTES = env.MAX_UPLOAD_SIZE_MB * 1024 * 1024;
+
+// Asset IDs are UUIDs; anything else is rejected before it touches the file system
+const ASSET_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Only media is accepted: the asset route serves uploads from the app's origin,
+// so an HTML or SVG upload would otherwise run as a page there
+const MEDIA_MIME_TYPE_PATTERN = /^(video|audio)\/[\w.+-]+$/i;
+
+/**
+ * Detects common media containers from their first bytes, for files the
+ * browser sent without a media type (often .mkv, .mov and .avi). Returns null
+ * if the file is not recognised.
+ */
+async function sniffMediaMimeType(filePath: string, fileName: string): Promise<string | null> {
+  const handle = await fs.open(filePath, 'r');
+  const header = Buffer.alloc(12);
+  try {
+    await handle.read(header, 0, header.length, 0);
+  } finally {
+    await handle.close();
+  }
+  const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+
+  if (header.readUInt32BE(0) === 0x1a45dfa3) { // EBML: Matroska or WebM
+    return /\.webm$/i.test(fileName) ? 'video/webm' : 'video/x-matroska';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (['moov', 'mdat', 'wide', 'free'].includes(ascii(4, 8))) return 'video/quicktime'; // QuickTime without ftyp
+  if (ascii(0, 4) === 'RIFF') {
+    if (ascii(8, 12) === 'AVI ') return 'video/x-msvideo';
+    if (ascii(8, 12) === 'WAVE') return 'audio/wav';
+  }
+  if (ascii(0, 3) === 'FLV') return 'video/x-flv';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 3) === 'ID3' || (header[0] === 0xff && (header[1]! & 0xe0) === 0xe0)) return 'audio/mpeg';
+  return null;
+}
+
+export interface UploadedAsset {
+  assetId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+// Error with the HTTP status the upload route should answer with
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export function isValidAssetId(assetId: string): boolean {
+  return ASSET_ID_PATTERN.test(assetId);
+}
+
+export function isMediaMimeType(mimeType: string): boolean {
+  return MEDIA_MIME_TYPE_PATTERN.test(mimeType);
+}
+
+function assertValidAssetId(assetId: string) {
+  if (!isValidAssetId(assetId)) {
+    throw new Error(`Invalid asset ID: ${assetId}`);
+  }
+}
+
+// Metadata is kept in a JSON object next to the asset
+const getAssetMetadataKey = (assetId: string) => `${assetId}.json`;
+
+// Storage keys of an asset and its metadata
+export const getAssetObjectKeys = (assetId: string) => [assetId, getAssetMetadataKey(assetId)];
+
+/**
+ * Reads the metadata of an uploaded asset, or null if the asset does not exist.
+ */
+export async function getAsset(assetId: string): Promise<UploadedAsset | null> {
+  if (!isValidAssetId(assetId)) return null;
+  const metadata = await getStorage().getBuffer('upload', getAssetMetadataKey(assetId));
+  return metadata ? JSON.parse(metadata.toString('utf8')) as UploadedAsset : null;
+}
+
+/**
+ * Makes an uploaded asset available as a local file, e.g. as ffmpeg input.
+ * Call cleanup when done; it only removes temporary copies.
+ */
+export async function getAssetLocalFile(assetId: string): Promise<LocalFile> {
+  assertValidAssetId(assetId);
+  return getStorage().getLocalFile('upload', assetId);
+}
+
+export async function createAssetReadStream(assetId: string, range?: ByteRange): Promise<Readable> {
+  assertValidAssetId(assetId);
+  return getStorage().createReadStream('upload', assetId, range);
+}
+
+export async function deleteAsset(assetId: string): Promise<void> {
+  assertValidAssetId(assetId);
+  const storage = getStorage();
+  await Promise.all([
+    storage.delete('upload', assetId),
+    storage.delete('upload', getAssetMetadataKey(assetId)),
+  ]);
+}
+
+/**
+ * Streams the single file of a multipart/form-data request to a local workspace,
+ * hands it to the storage driver and returns its asset metadata. The body is never
+ * buffered in memory.
+ */
+export async function saveUploadFromRequest(request: Request): Promise<UploadedAsset> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    throw new UploadError('Expected a multipart/form-data request', 415);
+  }
+  if (!request.body) {
+    throw new UploadError('Request body is empty', 400);
+  }
+
+  const assetId = randomUUID();
+  const workspace = await createWorkspace(`upload-${assetId}`);
+  const form = formidable({
+    uploadDir: workspace.dir,
+    maxFiles: 1,
+    maxFileSize: MAX_UPLOAD_SIZE_BYTES,
+    maxTotalFileSize: MAX_UPLOAD_SIZE_BYTES,
+    allowEmptyFiles: false,
+    filename: () => assetId,
+  });
+
+  // formidable expects a Node IncomingMessage: a readable stream with a headers object.
+  // Without a length header it assumes an empty body, so mark such requests as chunked.
+  const headers = Object.fromEntries(request.headers);
+  if (!headers['content-length'] && !headers['transfer-encoding']) {
+    headers['transfer-encoding'] = 'chunked';
+  }
+  const nodeRequest = Object.assign(
+    Readable.fromWeb(request.body as unknown as NodeReadableStream),
+    { headers }
+  ) as unknown as IncomingMessage;
+
+  try {
+    let file: formidable.File | undefined;
+    try {
+      const [, files] = await form.parse(nodeRequest);
+      file = Object.values(files).flat().find((f): f is formidable.File => !!f);
+    } catch (error: unknown) {
+      const httpCode = (error as { httpCode?: number }).httpCode;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[uploads] Failed to parse upload:', message);
+      throw new UploadError(message, httpCode && httpCode >= 400 ? httpCode : 400);
+    }
+
+    if (!file) {
+      throw new UploadError('No file found in the upload', 400);
+    }
+    const fileName = file.originalFilename ?? assetId;
+    // Browsers send an empty or generic type for containers they don't know, so check the content then
+    const mimeType = file.mimetype && isMediaMimeType(file.mimetype)
+      ? file.mimetype
+      : await sniffMediaMimeType(file.filepath, fileName);
+    if (!mimeType) {
+      throw new UploadError(`${fileName} is not a supported video or audio file`, 415);
+    }
+
+    const asset: UploadedAsset = {
+      assetId,
+      fileName,
+      mimeType,
+      size: file.size,
+      createdAt: new Date().toISOString(),
+    };
+    const storage = getStorage();
+    await storage.putFile('upload', assetId, file.filepath, { contentType: asset.mimeType });
+    await storage.putBuffer('upload', getAssetMetadataKey(assetId), JSON.stringify(asset), { contentType: 'application/json' });
+
+    console.log(`[uploads] Stored asset ${assetId} (${asset.fileName}, ${asset.size} bytes) with the ${storage.name} driver`);
+    return asset;
+  } finally {
+    await workspace.cleanup();
+  }
+}
@@ -0,0 +1,4 @@
+import nextEnv from '@next/env';
+
+// The worker runs outside Next.js, so load .env / .env.local the same way Next does
+nextEnv.loadEnvConfig(process.cwd());
@@ -0,0 +1,81 @@
+import './loadEnv'; // Must run before anything reads the environment
+import { Worker, UnrecoverableError, type Job } from 'bullmq';
+import IORedis from 'ioredis';
+import { env } from '~/env';
+import { AudioProcessingError, type TranscriptionJobData, type TranscriptionResult } from '~/server/lib/transcription';
+import { runTranscriptionJob } from '~/server/lib/transcription/job';
+
+console.log('[TranscriptionWorker] Starting transcription worker process...');
+
+const connection = new IORedis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+connection.on('connect', () => {
+  console.log('[TranscriptionWorker] Successfully connected to Redis.');
+});
+
+connection.on('error', (err) => {
+  console.error('[TranscriptionWorker] Redis connection error:', err);
+});
+
+const TRANSCRIPTION_QUEUE_NAME = 'transcription';
+
+async function processTranscription(job: Job<TranscriptionJobData, TranscriptionResult, string>): Promise<TranscriptionResult> {
+  console.log(`[TranscriptionWorker] Received job ${job.id}. Processing...`);
+  try {
+    const result = await runTranscriptionJob(job.data, async (progress) => {
+      try {
+        await job.updateProgress(progress);
+      } catch (err) {
+        console.warn(`[TranscriptionWorker] Job ${job.id} failed to update progress:`, err);
+      }
+    });
+    console.log(`[TranscriptionWorker] Job ${job.id} produced ${result.segments.length} segments (${result.language})`);
+    return result;
+  } catch (error) {
+    // Retrying does not help if ffmpeg cannot process the audio
+    if (error instanceof AudioProcessingError) {
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;
+  }
+}
+
+const transcriptionWorker = new Worker<TranscriptionJobData, TranscriptionResult, string>(
+  TRANSCRIPTION_QUEUE_NAME,
+  processTranscription,
+  {
+    connection,
+    concurrency: env.TRANSCRIPTION_WORKER_CONCURRENCY,
+  }
+);
+
+console.log(`[TranscriptionWorker] Listening to queue: '${TRANSCRIPTION_QUEUE_NAME}'`);
+
+transcriptionWorker.on('completed', (job: Job<TranscriptionJobData, TranscriptionResult, string>) => {
+  console.log(`[TranscriptionWorker] Job ${job.id} completed successfully.`);
+});
+
+transcriptionWorker.on('failed', (job: Job<TranscriptionJobData, TranscriptionResult, string> | undefined, err: Error) => {
+  if (job) {
+    console.error(`[TranscriptionWorker] Job ${job.id} failed with error: ${err.message}`, err.stack);
+  } else {
+    console.error(`[TranscriptionWorker] A job failed with error (job data unavailable): ${err.message}`, err.stack);
+  }
+});
+
+transcriptionWorker.on('error', err => {
+  console.error('[TranscriptionWorker] Worker encountered an error:', err);
+});
+
+async function gracefulShutdown(signal: string) {
+  console.log(`[TranscriptionWorker] Received ${signal}. Closing worker...`);
+  await transcriptionWorker.close();
+  await connection.quit();
+  console.log('[TranscriptionWorker] Worker closed. Exiting.');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void gracefulShutdown('SIGTERM'));
+process.on('SIGINT', () => void gracefulShutdown('SIGINT'));
@@ -1,26 +1,35 @@
+import './loadEnv'; // Must run before anything reads the environment
 import { Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
+import { env } from '~/env';
 import type { Subtitle } from '~/store/subtitleStore';
 import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
 
 // Imports needed for video processing logic
-import { file as tmpFile, type FileResult } from 'tmp-promise';
 import * as fs from 'fs/promises';
 import ffmpeg from 'fluent-ffmpeg'; // Import default
-import type { FfmpegCommand } from 'fluent-ffmpeg'; // Attempt to import type separately
+import { getAsset, getAssetLocalFile, getAssetObjectKeys } from '~/server/lib/uploads';
+import { db } from '~/server/db';
+import { createWorkspace, purgeExpiredObjects, type Workspace } from '~/server/lib/storage';
+import { saveExport, EXPORT_MIME_TYPES, type ExportResult } from '~/server/lib/exports';
+import { configureFfmpeg } from '~/server/lib/ffmpeg';
 import {
   renderSubtitleToPng,
-  buildOverlayFilterComplex,
   splitSubtitleIntoWords,
-  calculateSubtitleLayoutMetrics
+  calculateSubtitleLayoutMetrics,
+  buildSubtitleLayerTimeline,
+  composeSubtitleLayerFrame,
+  buildConcatList
 } from '~/utils/generatePng'; // Assuming these are correctly exported from generatePng
+import { generateSrt } from '~/utils/generateSrt';
+import { generateVtt } from '~/utils/generateVtt';
+import { generateAss } from '~/utils/generateAss';
+import { resolveSubtitleStyle } from '~/utils/subtitleStyle';
 import path from 'path';
-import { execSync } from 'child_process';
-import { Buffer } from 'buffer';
 
 console.log('[Worker] Starting video export worker process...');
 
-const connection = new IORedis(process.env.REDIS_URL ?? 'redis://localhost:6379', {
+const connection = new IORedis(env.REDIS_URL, {
   maxRetriesPerRequest: null, 
 });
 
@@ -34,93 +43,29 @@ connection.on('error', (err) => {
 
 const VIDEO_EXPORT_QUEUE_NAME = 'video-export';
 
+interface SoftSubtitleOptions {
+  container: 'mp4' | 'mkv';
+  format: 'vtt' | 'ass';
+  language: string;
+}
+
 interface VideoExportJobData {
-  videoB64: string;
+  videoAssetId: string; // Uploaded via /api/upload
   subs: Subtitle[];
   style: SubtitleStyle;
+  exportMode?: 'burnIn' | 'softSubs';
+  softSubtitles?: SoftSubtitleOptions;
+  renderer?: 'png' | 'ass'; // Burn-in renderer: PNG overlays or libass
 }
 
-// --- Helper functions (copied from old videoRouter.ts) --- 
-async function getFfmpegPath(): Promise<string> {
-  // ... (Implementation of getFfmpegPath as provided by user) ...
-  // For brevity, assuming the full implementation is copied here.
-  // Make sure all internal 'console.log' use a [Worker] prefix for clarity.
-  try {
-    const ffmpegStatic = await import('ffmpeg-static');
-    const resolvedPath: unknown = typeof ffmpegStatic === 'string' 
-      ? ffmpegStatic 
-      : ffmpegStatic.default;
-    
-    if (typeof resolvedPath === 'string') {
-      try {
-        await fs.access(resolvedPath);
-        console.log(`[Worker][ffmpeg] Found binary at dynamic import path: ${resolvedPath}`);
-        return resolvedPath;
-      } catch (err) {
-        console.warn(`[Worker][ffmpeg] Dynamic import path not accessible: ${resolvedPath}`);
-      }
-    }
-    try {
-      const pathFromWhich: string = execSync('which ffmpeg', { encoding: 'utf8' }).toString().trim();
-      console.log(`[Worker][ffmpeg] Found system binary at: ${pathFromWhich}`);
-      return pathFromWhich;
-    } catch (err) {
-      console.warn('[Worker][ffmpeg] Could not find ffmpeg in PATH');
-    }
-    const commonPaths = ['/usr/bin/ffmpeg', '/usr/local/bin/ffmpeg', '/opt/homebrew/bin/ffmpeg'];
-    for (const commonPath of commonPaths) {
-      try {
-        await fs.access(commonPath);
-        console.log(`[Worker][ffmpeg] Found binary at common path: ${commonPath}`);
-        return commonPath;
-      } catch {}
-    }
-    const moduleRootPath = path.resolve(process.cwd(), 'node_modules', '.pnpm', 'ffmpeg-static@5.2.0');
-    let binaryPath: string | undefined;
-    if (process.platform === 'darwin') {
-      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'darwin', process.arch === 'arm64' ? 'arm64' : 'x64', 'ffmpeg');
-    } else if (process.platform === 'linux') {
-      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'linux', 'x64', 'ffmpeg');
-    } else if (process.platform === 'win32') {
-      binaryPath = path.join(moduleRootPath, 'node_modules', 'ffmpeg-static', 'bin', 'win32', 'x64', 'ffmpeg.exe');
-    }
-    if (binaryPath) {
-      try {
-        await fs.access(binaryPath);
-        console.log(`[Worker][ffmpeg] Found binary at resolved path: ${binaryPath}`);
-        return binaryPath;
-      } catch (err) {
-        console.warn(`[Worker][ffmpeg] Resolved path not accessible: ${binaryPath}`);
-      }
-    }
-    try {
-      const directPath = path.resolve(process.cwd(), 'node_modules', 'ffmpeg-static', 'ffmpeg');
-      await fs.access(directPath);
-      console.log(`[Worker][ffmpeg] Found binary at direct node_modules path: ${directPath}`);
-      return directPath;
-    } catch (err) {
-      console.warn('[Worker][ffmpeg] Direct node_modules path not accessible');
-    }
-    if (process.platform === 'darwin') {
-      try {
-        const homebrewPath = execSync('brew --prefix ffmpeg', { encoding: 'utf8' }).toString().trim();
-        if (homebrewPath) {
-          const brewBinaryPath = path.join(homebrewPath, 'bin', 'ffmpeg');
-          await fs.access(brewBinaryPath);
-          console.log(`[Worker][ffmpeg] Found binary installed via Homebrew: ${brewBinaryPath}`);
-          return brewBinaryPath;
-        }
-      } catch (err) {
-        console.warn('[Worker][ffmpeg] Could not find ffmpeg installed via Homebrew');
-      }
-    }
-    throw new Error('Could not resolve ffmpeg path through any method');
-  } catch (error) {
-    console.error('[Worker][ffmpeg] Error resolving path:', error);
-    throw new Error(`Failed to resolve ffmpeg path: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
+// Share of job progress for the PNG path before the single encode starts
+const PNG_RENDER_PROGRESS = 10; // Rendering one PNG per (word) cue
+const LAYER_COMPOSE_PROGRESS = 10; // Composing the full-frame subtitle layer
 
+// Fonts used by libass (same files the PNG renderer registers with node-canvas)
+const FONTS_DIR = path.resolve(process.cwd(), 'assets', 'fonts');
+
+// --- Helper functions (copied from old videoRouter.ts) --- 
 async function getVideoSize(filePath: string): Promise<{width: number; height: number}> {
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(filePath, (err, metadata) => {
@@ -134,45 +79,45 @@ async function getVideoSize(filePath: string): Promise<{width: number; height: n
   });
 }
 
-async function runFfmpegBatch(
+/**
+ * Overlays the pre-composed subtitle layer (an ffconcat image sequence with timed
+ * durations) onto the video. This is the only encode of the PNG path, no matter how
+ * many cues there are. Progress is mapped from progressOffset to 100.
+ */
+async function runSubtitleLayerEncode(
   inputVideoPath: string,
-  pngPaths: string[],
-  subtitles: Subtitle[],
+  concatListPath: string,
   outputVideoPath: string,
-  style: SubtitleStyle,
-  videoDimensions: { width: number; height: number },
-  job: Job<VideoExportJobData, string, string>,
-  progressOffset: number,
-  batchWeight: number
+  job: Job<VideoExportJobData, ExportResult, string>,
+  progressOffset: number
 ): Promise<void> {
-  const filterComplex = buildOverlayFilterComplex(
-    subtitles, pngPaths, style, videoDimensions.width, videoDimensions.height
-  );
   return new Promise<void>((resolve, reject) => {
-    const command: FfmpegCommand = ffmpeg(inputVideoPath);
-    pngPaths.forEach(pngPath => command.input(pngPath));
-    const mapVideoStreamName = pngPaths.length > 0 ? `[v${pngPaths.length}]` : '0:v';
-    command
-      .complexFilter(filterComplex)
+    ffmpeg(inputVideoPath)
+      .input(concatListPath)
+      .inputOptions('-f', 'concat', '-safe', '0')
+      // The layer is full-frame, so it always goes to 0:0; repeat its last (empty) frame until the video ends
+      .complexFilter('[1:v]format=rgba[subs];[0:v][subs]overlay=0:0:eof_action=repeat:format=auto[vout]')
       .outputOptions(
-        '-map', mapVideoStreamName,
+        '-map', '[vout]',
         '-map', '0:a?',
         '-c:a', 'copy',
         '-c:v', 'libx264',
         '-preset', 'medium',
         '-crf', '23',
+        '-pix_fmt', 'yuv420p',
         '-movflags', '+faststart',
         '-threads', '0',
         '-filter_complex_threads', '0'
       )
-      .on('start', (cmd: string) => console.log(`[Worker][ffmpeg batch] Spawned with command: ${cmd}`))
-      .on('stderr', (line: string) => console.log(`[Worker][ffmpeg batch] stderr: ${line}`))
+      .on('start', (cmd: string) => console.log(`[Worker][ffmpeg layer] Spawned with command: ${cmd}`))
+      .on('stderr', (line: string) => console.log(`[Worker][ffmpeg layer] stderr: ${line}`))
       .on('progress', (progress) => {
         void (async () => {
+          // percent is relative to the duration of input 0, the video
           if (progress.percent && progress.percent >= 0) {
-            const currentBatchProgress = progress.percent;
-            const overallProgress = Math.min(100, progressOffset + (currentBatchProgress * (batchWeight / 100)));
-            console.log(`[Worker] Job ${job.id} batch progress: ${currentBatchProgress.toFixed(2)}%, overall: ${overallProgress.toFixed(2)}%`);
+            const encodeProgress = Math.min(100, progress.percent);
+            const overallProgress = Math.min(100, progressOffset + (encodeProgress * (100 - progressOffset) / 100));
+            console.log(`[Worker] Job ${job.id} encode progress: ${encodeProgress.toFixed(2)}%, overall: ${overallProgress.toFixed(2)}%`);
             try {
               await job.updateProgress(overallProgress);
             } catch (err) {
@@ -186,159 +131,326 @@ async function runFfmpegBatch(
       .on('error', (err: Error) => reject(err));
   });
 }
+
+// Quotes a value for use inside an ffmpeg filter graph option ('...' with ' escaped)
+function quoteFilterValue(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Burns the subtitles in with libass in a single ffmpeg pass.
+ * Word effects are already encoded as ASS events / karaoke tags by generateAss.
+ */
+async function burnInWithAss(
+  inputVideoPath: string,
+  outputVideoPath: string,
+  workspace: Workspace,
+  subtitles: Subtitle[],
+  style: SubtitleStyle,
+  videoDimensions: { width: number; height: number },
+  job: Job<VideoExportJobData, ExportResult, string>
+): Promise<void> {
+  const assDocument = generateAss(subtitles, style, videoDimensions.width, videoDimensions.height);
+  const assPath = workspace.file('subtitles.ass');
+  await fs.writeFile(assPath, assDocument, 'utf8');
+  const assFilter = `ass=filename=${quoteFilterValue(assPath)}:fontsdir=${quoteFilterValue(FONTS_DIR)}`;
+  console.log(`[Worker][ffmpeg ass] Rendering ${subtitles.length} cues with libass`);
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(inputVideoPath)
+      .videoFilters(assFilter)
+      .outputOptions(
+        '-map', '0:v',
+        '-map', '0:a?',
+        '-c:a', 'copy',
+        '-c:v', 'libx264',
+        '-preset', 'medium',
+        '-crf', '23',
+        '-movflags', '+faststart',
+        '-threads', '0'
+      )
+      .on('start', (cmd: string) => console.log(`[Worker][ffmpeg ass] Spawned with command: ${cmd}`))
+      .on('stderr', (line: string) => console.log(`[Worker][ffmpeg ass] stderr: ${line}`))
+      .on('progress', (progress) => {
+        void (async () => {
+          if (progress.percent && progress.percent >= 0) {
+            try {
+              await job.updateProgress(Math.min(100, progress.percent));
+            } catch (err) {
+              console.warn(`[Worker] Job ${job.id} failed to update progress:`, err);
+            }
+          }
+        })();
+      })
+      .save(outputVideoPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+}
+
+/**
+ * Muxes the subtitles as a separate track without re-encoding the video.
+ * MP4 gets a mov_text track (converted by ffmpeg from SRT), MKV gets WebVTT or ASS.
+ */
+async function muxSoftSubtitles(
+  inputVideoPath: string,
+  outputVideoPath: string,
+  workspace: Workspace,
+  subtitles: Subtitle[],
+  style: SubtitleStyle,
+  options: SoftSubtitleOptions,
+  videoDimensions: { width: number; height: number },
+  job: Job<VideoExportJobData, ExportResult, string>
+): Promise<void> {
+  const { container, language } = options;
+  // MP4 only supports mov_text, which ffmpeg builds from the plain-text SRT
+  const subtitleFormat = container === 'mp4' ? 'srt' : options.format;
+  const subtitleCodec = container === 'mp4' ? 'mov_text' : subtitleFormat === 'ass' ? 'ass' : 'webvtt';
+
+  let subtitleDocument: string;
+  if (subtitleFormat === 'srt') {
+    subtitleDocument = generateSrt(subtitles);
+  } else if (subtitleFormat === 'vtt') {
+    subtitleDocument = generateVtt(subtitles);
+  } else {
+    subtitleDocument = generateAss(subtitles, style, videoDimensions.width, videoDimensions.height);
+  }
+
+  const subtitlePath = workspace.file(`subtitles.${subtitleFormat}`);
+  await fs.writeFile(subtitlePath, subtitleDocument, 'utf8');
+  console.log(`[Worker][ffmpeg mux] Muxing ${subtitles.length} cues as ${subtitleCodec} (${language}) into ${container}`);
+
+  await new Promise<void>((resolve, reject) => {
+    const outputOptions = [
+      '-map', '0:v',
+      '-map', '0:a?',
+      '-map', '1:0',
+      '-c:v', 'copy',
+      '-c:a', 'copy',
+      '-c:s', subtitleCodec,
+      '-metadata:s:s:0', `language=${language}`,
+      '-disposition:s:0', 'default',
+    ];
+    if (container === 'mp4') {
+      outputOptions.push('-movflags', '+faststart');
+    }
+
+    ffmpeg(inputVideoPath)
+      .input(subtitlePath)
+      .outputOptions(outputOptions)
+      .format(container === 'mp4' ? 'mp4' : 'matroska')
+      .on('start', (cmd: string) => console.log(`[Worker][ffmpeg mux] Spawned with command: ${cmd}`))
+      .on('stderr', (line: string) => console.log(`[Worker][ffmpeg mux] stderr: ${line}`))
+      .on('progress', (progress) => {
+        void (async () => {
+          if (progress.percent && progress.percent >= 0) {
+            try {
+              await job.updateProgress(Math.min(100, progress.percent));
+            } catch (err) {
+              console.warn(`[Worker] Job ${job.id} failed to update progress:`, err);
+            }
+          }
+        })();
+      })
+      .save(outputVideoPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+}
 // --- End of Helper functions ---
 
-async function processVideoExport(job: Job<VideoExportJobData, string, string>): Promise<string> {
+async function processVideoExport(job: Job<VideoExportJobData, ExportResult, string>): Promise<ExportResult> {
   console.log(`[Worker] Received job ${job.id}. Processing...`);
   await job.updateProgress(0);
-  const { videoB64, subs, style } = job.data;
+  const { videoAssetId, subs, style } = job.data;
 
-  const ffmpegPath = await getFfmpegPath();
-  console.log('[Worker][ffmpeg] Using binary at', ffmpegPath);
-  ffmpeg.setFfmpegPath(ffmpegPath);
-  try {
-    await fs.chmod(ffmpegPath, 0o755);
-  } catch (err) {
-    console.warn('[Worker] Could not set ffmpeg binary as executable:', err);
-  }
+  await configureFfmpeg();
+
+  // All intermediate files of this job (PNGs, subtitle documents, encoder output) live here
+  const workspace = await createWorkspace(`export-${job.id}`);
+  const container = job.data.exportMode === 'softSubs' ? (job.data.softSubtitles?.container ?? 'mp4') : 'mp4';
+  const outputPath = workspace.file(`output.${container}`);
+  let inputVideo: Awaited<ReturnType<typeof getAssetLocalFile>> | null = null;
 
-  const tmpIn = await tmpFile({ postfix: '.mp4' });
-  let previousBatchTmpFile: FileResult | null = null;
-  const allPngPaths: string[] = []; // To collect all PNG paths for final cleanup
+  // Hands the encoded output to storage, named after the uploaded video
+  const finishExport = async (baseName: string): Promise<ExportResult> => {
+    const result = await saveExport(String(job.id), outputPath, {
+      fileName: `${baseName}_with_subtitles.${container}`,
+      mimeType: EXPORT_MIME_TYPES[container],
+    });
+    console.log(`[Worker] Saved export of job ${job.id}: ${result.fileName} (${result.size} bytes)`);
+    await job.updateProgress(100);
+    return result;
+  };
 
   try {
-    await fs.writeFile(tmpIn.path, Buffer.from(videoB64, 'base64'));
-    const videoDimensions = await getVideoSize(tmpIn.path);
+    const videoAsset = await getAsset(videoAssetId);
+    if (!videoAsset) {
+      throw new Error(`Uploaded video ${videoAssetId} not found`);
+    }
+    const baseName = path.parse(videoAsset.fileName).name || 'video';
+    // Read in place by the local driver, downloaded by remote drivers; never modified here
+    inputVideo = await getAssetLocalFile(videoAssetId);
+    const inputVideoPath = inputVideo.path;
+    const videoDimensions = await getVideoSize(inputVideoPath);
     console.log('[Worker][ffmpeg] Video dimensions:', videoDimensions);
     console.log('[Worker][ffmpeg] Input style:', JSON.stringify(style, null, 2));
 
+    if (job.data.exportMode === 'softSubs') {
+      const softSubtitles = job.data.softSubtitles ?? { container: 'mp4', format: 'vtt', language: 'gsw' };
+      await muxSoftSubtitles(inputVideoPath, outputPath, workspace, subs, style, softSubtitles, videoDimensions, job);
+      console.log(`[Worker] Successfully muxed soft subtitles for job ${job.id}`);
+      return await finishExport(baseName);
+    }
+
     const effectType = style.effectType ?? 'none';
     console.log(`[Worker][ffmpeg] Using subtitle effect: ${effectType}`);
 
+    if (job.data.renderer === 'ass') {
+      try {
+        await burnInWithAss(inputVideoPath, outputPath, workspace, subs, style, videoDimensions, job);
+        console.log(`[Worker] Successfully rendered job ${job.id} with libass`);
+        return await finishExport(baseName);
+      } catch (err) {
+        // e.g. an ffmpeg build without libass; the PNG overlay path below still works
+        console.warn(`[Worker] libass render failed for job ${job.id}, falling back to PNG overlays:`, err);
+        await job.updateProgress(0);
+      }
+    }
+
     const processedSubsForFfmpeg: Subtitle[] = [];
-    // currentPngBatchPaths and allPngPaths will be populated after Promise.all resolves
     const pngGenerationPromises: Promise<string>[] = [];
 
     if (effectType === 'none') {
       for (const sub of subs) {
         processedSubsForFfmpeg.push(sub); // Keep track of the subtitle for ffmpeg
         pngGenerationPromises.push(
-          renderSubtitleToPng(sub, style, videoDimensions.width, videoDimensions.height)
+          renderSubtitleToPng(sub, style, videoDimensions.width, videoDimensions.height, { outputDir: workspace.dir })
         );
       }
     } else {
       for (const sub of subs) {
         const wordSubtitles = splitSubtitleIntoWords(sub, effectType);
-        const fullLayoutMetrics = calculateSubtitleLayoutMetrics(sub.text, style, videoDimensions.width, videoDimensions.height);
+        // Measured with the cue's own style, which may override the font size
+        const cueStyle = resolveSubtitleStyle(style, sub);
+        const fullLayoutMetrics = calculateSubtitleLayoutMetrics(sub.text, cueStyle, videoDimensions.width, videoDimensions.height);
         for (const wordSub of wordSubtitles) {
           processedSubsForFfmpeg.push(wordSub); // Keep track of the word-subtitle for ffmpeg
-          const partialLayoutMetrics = calculateSubtitleLayoutMetrics(wordSub.text, style, videoDimensions.width, videoDimensions.height);
+          const partialLayoutMetrics = calculateSubtitleLayoutMetrics(wordSub.text, cueStyle, videoDimensions.width, videoDimensions.height);
           pngGenerationPromises.push(
             renderSubtitleToPng(wordSub, style, videoDimensions.width, videoDimensions.height, {
               overrideLayoutMetrics: partialLayoutMetrics,
-              fixedCanvasSize: { width: fullLayoutMetrics.boxWidth, height: fullLayoutMetrics.boxHeight }
+              fixedCanvasSize: { width: fullLayoutMetrics.boxWidth, height: fullLayoutMetrics.boxHeight },
+              outputDir: workspace.dir
             })
           );
         }
       }
     }
     
+    if (processedSubsForFfmpeg.length === 0) {
+      console.log(`[Worker] Job ${job.id} has no subtitles to burn in, returning the input video`);
+      await fs.copyFile(inputVideoPath, outputPath);
+      return await finishExport(baseName);
+    }
+
+    // Report progress while rendering; updates are throttled to whole percents
+    let lastReportedProgress = 0;
+    const reportProgress = async (value: number) => {
+      const rounded = Math.floor(value);
+      if (rounded <= lastReportedProgress) return;
+      lastReportedProgress = rounded;
+      try {
+        await job.updateProgress(rounded);
+      } catch (err) {
+        console.warn(`[Worker] Job ${job.id} failed to update progress:`, err);
+      }
+    };
+
     console.log(`[Worker][ffmpeg] Starting concurrent generation of ${pngGenerationPromises.length} PNG subtitle files...`);
-    const generatedPngPaths = await Promise.all(pngGenerationPromises);
-    
-    // Populate currentPngBatchPaths and allPngPaths with the results
+    let renderedPngCount = 0;
+    const generatedPngPaths = await Promise.all(pngGenerationPromises.map(async (promise) => {
+      const pngPath = await promise;
+      renderedPngCount++;
+      await reportProgress((renderedPngCount / pngGenerationPromises.length) * PNG_RENDER_PROGRESS);
+      return pngPath;
+    }));
+
     // The order is preserved by Promise.all, aligning with processedSubsForFfmpeg
-    const currentPngBatchPaths = [...generatedPngPaths];
-    allPngPaths.push(...generatedPngPaths); // Add to allPngPaths for cleanup
-
-    console.log(`[Worker][ffmpeg] Generated ${currentPngBatchPaths.length} PNG subtitle files`);
-
-    const BATCH_SIZE = 200;
-    let currentVideoPath = tmpIn.path;
-    let accumulatedProgress = 0;
-
-    if (processedSubsForFfmpeg.length > 0) {
-      const totalBatches = Math.ceil(processedSubsForFfmpeg.length / BATCH_SIZE);
-      const weightPerBatch = 100 / totalBatches;
-
-      for (let i = 0; i < processedSubsForFfmpeg.length; i += BATCH_SIZE) {
-        const batchSubs = processedSubsForFfmpeg.slice(i, i + BATCH_SIZE);
-        const batchPngs = currentPngBatchPaths.slice(i, i + BATCH_SIZE);
-        if (batchSubs.length === 0) continue;
-
-        const currentBatchOutputTmpFile = await tmpFile({ postfix: '.mp4' });
-        const batchNumber = i / BATCH_SIZE + 1;
-        console.log(`[Worker][ffmpeg] Processing batch: ${batchNumber}/${totalBatches}, subtitles: ${batchSubs.length}`);
-        
-        const progressOffset = accumulatedProgress;
-
-        await runFfmpegBatch(
-          currentVideoPath, 
-          batchPngs, 
-          batchSubs, 
-          currentBatchOutputTmpFile.path, 
-          style, 
-          videoDimensions,
-          job,
-          progressOffset,
-          weightPerBatch
+    console.log(`[Worker][ffmpeg] Generated ${generatedPngPaths.length} PNG subtitle files`);
+
+    // Pre-compose the subtitle layer: one full-frame PNG per interval with a constant set of visible cues
+    const intervals = buildSubtitleLayerTimeline(processedSubsForFfmpeg);
+    console.log(`[Worker][ffmpeg] Composing subtitle layer with ${intervals.length} intervals`);
+
+    let emptyFramePath: string | null = null;
+    const layerFrames: Array<{ path: string; duration: number }> = [];
+    for (const [index, interval] of intervals.entries()) {
+      let framePath: string;
+      if (interval.activeIndices.length === 0) {
+        // All gaps share one transparent frame
+        emptyFramePath ??= await composeSubtitleLayerFrame([], videoDimensions.width, videoDimensions.height, workspace.dir);
+        framePath = emptyFramePath;
+      } else {
+        framePath = await composeSubtitleLayerFrame(
+          interval.activeIndices.map(i => ({
+            pngPath: generatedPngPaths[i]!,
+            style: resolveSubtitleStyle(style, processedSubsForFfmpeg[i]!),
+          })),
+          videoDimensions.width,
+          videoDimensions.height,
+          workspace.dir
         );
-        
-        accumulatedProgress += weightPerBatch;
-
-        if (previousBatchTmpFile) {
-          await previousBatchTmpFile.cleanup();
-        } else if (currentVideoPath !== tmpIn.path && i > 0) {
-           // This case should ideally not be hit with tmpFile management
-        }
-        currentVideoPath = currentBatchOutputTmpFile.path;
-        previousBatchTmpFile = currentBatchOutputTmpFile;
       }
+      layerFrames.push({ path: framePath, duration: interval.end - interval.start });
+      await reportProgress(PNG_RENDER_PROGRESS + ((index + 1) / intervals.length) * LAYER_COMPOSE_PROGRESS);
     }
 
-    const mp4Buffer = await fs.readFile(currentVideoPath);
-    const resultBase64 = mp4Buffer.toString('base64');
-    console.log(`[Worker] Successfully processed job ${job.id}. Output size: ${resultBase64.length}`);
-    await job.updateProgress(100);
-    return resultBase64;
+    // Clear the last subtitle once it ends
+    emptyFramePath ??= await composeSubtitleLayerFrame([], videoDimensions.width, videoDimensions.height, workspace.dir);
+    layerFrames.push({ path: emptyFramePath, duration: 1 });
+
+    const concatListPath = workspace.file('layer.ffconcat');
+    await fs.writeFile(concatListPath, buildConcatList(layerFrames), 'utf8');
+
+    await runSubtitleLayerEncode(
+      inputVideoPath,
+      concatListPath,
+      outputPath,
+      job,
+      PNG_RENDER_PROGRESS + LAYER_COMPOSE_PROGRESS
+    );
+    console.log(`[Worker] Successfully processed job ${job.id}`);
+    return await finishExport(baseName);
 
   } finally {
     console.log(`[Worker] Cleaning up temporary files for job ${job.id}`);
-    await tmpIn.cleanup();
-    if (previousBatchTmpFile) {
-      await previousBatchTmpFile.cleanup();
-    }
-    await Promise.all(allPngPaths.map(async (pngPath) => {
-      try {
-        await fs.unlink(pngPath);
-      } catch (err) {
-        console.warn(`[Worker] Could not delete temporary PNG file ${pngPath}:`, err);
-      }
-    }));
+    await inputVideo?.cleanup();
+    await workspace.cleanup();
     console.log(`[Worker] Finished cleanup for job ${job.id}`);
   }
 }
 
-const videoExportWorker = new Worker<VideoExportJobData, string, string>(
+const videoExportWorker = new Worker<VideoExportJobData, ExportResult, string>(
   VIDEO_EXPORT_QUEUE_NAME,
   processVideoExport,
   {
     connection,
-    concurrency: parseInt(process.env.VIDEO_WORKER_CONCURRENCY ?? '1', 10),
+    concurrency: env.VIDEO_WORKER_CONCURRENCY,
     limiter: {
-      max: parseInt(process.env.VIDEO_WORKER_LIMITER_MAX ?? '10', 10),
-      duration: parseInt(process.env.VIDEO_WORKER_LIMITER_DURATION ?? '1000', 10),
+      max: env.VIDEO_WORKER_LIMITER_MAX,
+      duration: env.VIDEO_WORKER_LIMITER_DURATION,
     },
   }
 );
 
 console.log(`[Worker] Video export worker listening to queue: '${VIDEO_EXPORT_QUEUE_NAME}'`);
 
-videoExportWorker.on('completed', (job: Job<VideoExportJobData, string, string>, result: string) => {
-  console.log(`[Worker] Job ${job.id} completed successfully. Result length: ${result.length}`);
+videoExportWorker.on('completed', (job: Job<VideoExportJobData, ExportResult, string>, result: ExportResult) => {
+  console.log(`[Worker] Job ${job.id} completed successfully. Output: ${result.fileName} (${result.size} bytes)`);
 });
 
-videoExportWorker.on('failed', (job: Job<VideoExportJobData, string, string> | undefined, err: Error) => {
+videoExportWorker.on('failed', (job: Job<VideoExportJobData, ExportResult, string> | undefined, err: Error) => {
   if (job) {
     console.error(`[Worker] Job ${job.id} failed with error: ${err.message}`, err.stack);
   } else {
@@ -350,8 +462,27 @@ videoExportWorker.on('error', err => {
   console.error('[Worker] Worker encountered an error:', err);
 });
 
+// Removes uploads, intermediate workspaces and renders that are past their retention
+const STORAGE_PURGE_INTERVAL_MS = env.STORAGE_PURGE_INTERVAL_MINUTES * 60 * 1000;
+
+async function runStoragePurge() {
+  try {
+    // Videos attached to saved projects are kept for as long as the project exists
+    const attachedAssets = await db.videoAsset.findMany({ select: { assetId: true } });
+    const retainedUploadKeys = new Set(attachedAssets.flatMap(asset => getAssetObjectKeys(asset.assetId)));
+    const removed = await purgeExpiredObjects({ retainedUploadKeys });
+    console.log(`[Worker] Storage purge removed ${removed.upload} uploads, ${removed.intermediate} workspaces, ${removed.render} renders`);
+  } catch (err) {
+    console.error('[Worker] Storage purge failed:', err);
+  }
+}
+
+void runStoragePurge();
+const storagePurgeTimer = setInterval(() => void runStoragePurge(), STORAGE_PURGE_INTERVAL_MS);
+
 async function gracefulShutdown(signal: string) {
   console.log(`[Worker] Received ${signal}. Closing worker...`);
+  clearInterval(storagePurgeTimer);
   await videoExportWorker.close();
   await connection.quit();
   console.log('[Worker] Worker closed. Exiting.');
@@ -1,13 +1,31 @@
 import { create } from 'zustand';
+import { mergeSubtitlePair, splitSubtitleAt } from '~/utils/splitMerge';
+import { alignWordsToText } from '~/utils/wordTiming';
 
 // --- START: Define WordTimestamp structure ---
 interface WordTimestamp {
   word: string;
   start: number;
   end: number;
+  probability?: number; // 0-1, from transcription
 }
 // --- END: Define WordTimestamp structure ---
 
+// Whisper's decoding metrics of a transcribed subtitle, see ~/utils/confidence
+export interface SubtitleConfidence {
+  avgLogprob?: number;
+  noSpeechProb?: number;
+  compressionRatio?: number;
+}
+
+// Style of a single cue, applied over the main and speaker style; see resolveSubtitleStyle
+export interface SubtitleStyleOverride {
+  textColor?: string;
+  bgColor?: string;
+  fontSize?: number;
+  position?: 'bottom' | 'middle' | 'top';
+}
+
 // Define the structure of a subtitle item
 export interface Subtitle {
   id: string;
@@ -15,6 +33,9 @@ export interface Subtitle {
   start: number; // Time in seconds
   end: number;   // Time in seconds
   words?: WordTimestamp[]; // Optional array of word timestamps
+  confidence?: SubtitleConfidence; // Only set for transcribed subtitles
+  speaker?: string; // Speaker ID, e.g. from diarization; see SubtitleStyle.speakers
+  styleOverride?: SubtitleStyleOverride;
   // Add other properties like style, position later if needed
 }
 
@@ -25,19 +46,43 @@ export interface SubtitleWord {
 }
 
 const MAX_HISTORY_LENGTH = 50; // Limit stack size
+const NUDGE_FRAME_RATE = 25; // Frames nudged by nudgeSubtitles; PAL, as used by Swiss broadcasters
 
 // Define the state structure for the store
 interface SubtitleState {
   subtitles: Subtitle[];
   undoStack: Subtitle[][];
   redoStack: Subtitle[][];
+  // Saved project and track the subtitles belong to (null until a project exists)
+  projectId: string | null;
+  trackId: string | null;
+  selectedSubtitleIds: string[]; // Cues selected on the timeline
+  selectionAnchorId: string | null; // Last cue clicked without Shift; range selections start here
 
   // Actions
   addSubtitle: (subtitle: Subtitle) => void;
   addSubtitles: (newSubtitles: Subtitle[]) => void;
+  replaceSubtitles: (newSubtitles: Subtitle[]) => void;
   updateSubtitle: (id: string, subtitleChanges: Partial<Omit<Subtitle, 'id'>>) => void;
+  updateSubtitles: (updates: { id: string; changes: Partial<Omit<Subtitle, 'id'>> }[]) => void; // One undo step for all
   deleteSubtitle: (id: string) => void;
+  splitSubtitle: (id: string, time: number) => string | null; // Returns the ID of the second half, null if it can't be split
+  mergeSubtitle: (id: string, direction: 'previous' | 'next') => void;
   clearSubtitles: () => void;
+  setSelectedSubtitleIds: (ids: string[]) => void;
+  selectSubtitle: (id: string, mode: 'replace' | 'toggle' | 'range') => void;
+  selectSubtitlesInRange: (start: number, end: number, additive: boolean) => void; // Cues overlapping [start, end]
+
+  // Batch actions, each one undo step
+  moveSubtitles: (ids: string[], delta: number) => void; // Seconds; clamped so no cue starts before 0
+  nudgeSubtitles: (ids: string[], frames: number) => void;
+  deleteSubtitles: (ids: string[]) => void;
+  setStyleOverride: (ids: string[], override: SubtitleStyleOverride | null) => void; // Merged into each cue's override; null clears it
+
+  // Project actions
+  setProject: (projectId: string | null, trackId: string | null) => void;
+  loadSubtitles: (subtitles: Subtitle[]) => void; // Replaces everything and resets history
+  restoreSession: (session: Pick<SubtitleState, 'subtitles' | 'undoStack' | 'redoStack'>) => void; // Replaces everything including history
 
   // History actions
   undo: () => void;
@@ -52,12 +97,22 @@ interface SubtitleState {
 // Helper to create a snapshot of subtitles (shallow copy of each subtitle object)
 const snapshot = (subs: Subtitle[]): Subtitle[] => subs.map(sub => ({ ...sub, words: sub.words ? sub.words.map(w => ({...w})) : undefined }));
 
+// Edited text keeps word effects in sync: words are re-aligned to it unless the changes set them
+const withAlignedWords = (sub: Subtitle, changes: Partial<Omit<Subtitle, 'id'>>): Partial<Omit<Subtitle, 'id'>> =>
+  changes.text !== undefined && changes.text !== sub.text && !('words' in changes) && sub.words?.length
+    ? { ...changes, words: alignWordsToText(changes.text, sub.words, changes.start ?? sub.start, changes.end ?? sub.end) }
+    : changes;
+
 // Create the Zustand store
 export const useSubtitleStore = create<SubtitleState>((set, get) => ({
   // Initial mock data - adjust start/end times based on your test video
   subtitles: [],
   undoStack: [],
   redoStack: [],
+  projectId: null,
+  trackId: null,
+  selectedSubtitleIds: [],
+  selectionAnchorId: null,
 
   _addUndoState: (prevStateSnapshot) => {
     set((state) => {
@@ -86,6 +141,14 @@ export const useSubtitleStore = create<SubtitleState>((set, get) => ({
     }));
   },
 
+  // Function to replace all subtitles at once (e.g. when importing a file or re-segmenting), as one undo step
+  replaceSubtitles: (newSubtitles) => {
+    const prevState = get().subtitles;
+    if (prevState.length === 0 && newSubtitles.length === 0) return; // No change, no undo state
+    get()._addUndoState(snapshot(prevState));
+    set({ subtitles: [...newSubtitles].sort((a, b) => a.start - b.start) });
+  },
+
   // Function to update an existing subtitle
   updateSubtitle: (id, subtitleChanges) => {
     const prevState = get().subtitles;
@@ -98,7 +161,7 @@ export const useSubtitleStore = create<SubtitleState>((set, get) => ({
         );
         if (changed) {
             subtitleUpdated = true;
-            return { ...sub, ...subtitleChanges };
+            return { ...sub, ...withAlignedWords(sub, subtitleChanges) };
         }
       }
       return sub;
@@ -110,6 +173,28 @@ export const useSubtitleStore = create<SubtitleState>((set, get) => ({
     }
   },
 
+  // Function to update several subtitles at once (e.g. a normalization pass), as one undo step
+  updateSubtitles: (updates) => {
+    const prevState = get().subtitles;
+    const changesById = new Map(updates.map(update => [update.id, update.changes]));
+    let subtitlesUpdated = false;
+    const nextSubtitles = prevState.map((sub) => {
+      const subtitleChanges = changesById.get(sub.id);
+      if (!subtitleChanges) return sub;
+      const changed = Object.keys(subtitleChanges).some(key =>
+          sub[key as keyof Subtitle] !== subtitleChanges[key as keyof Partial<Omit<Subtitle, 'id'>>]
+      );
+      if (!changed) return sub;
+      subtitlesUpdated = true;
+      return { ...sub, ...withAlignedWords(sub, subtitleChanges) };
+    });
+
+    if (subtitlesUpdated) {
+      get()._addUndoState(snapshot(prevState));
+      set({ subtitles: nextSubtitles.sort((a, b) => a.start - b.start) }); // Keep sorted
+    }
+  },
+
   // Function to remove a subtitle
   deleteSubtitle: (id) => {
     const prevState = get().subtitles;
@@ -121,6 +206,37 @@ export const useSubtitleStore = create<SubtitleState>((set, get) => ({
     }
   },
   
+  // Function to split a subtitle in two at the word boundary nearest to time
+  splitSubtitle: (id, time) => {
+    const prevState = get().subtitles;
+    const subtitle = prevState.find((sub) => sub.id === id);
+    const secondId = `sub-${Date.now()}-${prevState.length}`;
+    const halves = subtitle ? splitSubtitleAt(subtitle, time, secondId) : null;
+    if (!halves) return null;
+
+    get()._addUndoState(snapshot(prevState));
+    set({
+      subtitles: prevState.flatMap((sub) => (sub.id === id ? halves : [sub])).sort((a, b) => a.start - b.start),
+    });
+    return secondId;
+  },
+
+  // Function to merge a subtitle with the one before or after it
+  mergeSubtitle: (id, direction) => {
+    const prevState = get().subtitles;
+    const index = prevState.findIndex((sub) => sub.id === id);
+    const neighbour = prevState[direction === 'next' ? index + 1 : index - 1];
+    if (index === -1 || !neighbour) return;
+
+    const [first, second] = direction === 'next' ? [prevState[index]!, neighbour] : [neighbour, prevState[index]!];
+    const merged = mergeSubtitlePair(first, second);
+    get()._addUndoState(snapshot(prevState));
+    set({
+      subtitles: prevState.flatMap((sub) => (sub.id === first.id ? [merged] : sub.id === second.id ? [] : [sub])),
+      selectedSubtitleIds: get().selectedSubtitleIds.filter((selectedId) => selectedId !== second.id),
+    });
+  },
+
   // Function to clear all subtitles
   clearSubtitles: () => {
     const prevState = get().subtitles;
@@ -132,6 +248,122 @@ export const useSubtitleStore = create<SubtitleState>((set, get) => ({
     }
   },
 
+  setSelectedSubtitleIds: (ids) => {
+    set({ selectedSubtitleIds: ids });
+  },
+
+  // Click selects one cue, toggle adds or removes it, range selects everything from the anchor to it
+  selectSubtitle: (id, mode) => {
+    const { subtitles, selectedSubtitleIds, selectionAnchorId } = get();
+    if (mode === 'toggle') {
+      set({
+        selectedSubtitleIds: selectedSubtitleIds.includes(id)
+          ? selectedSubtitleIds.filter((selectedId) => selectedId !== id)
+          : [...selectedSubtitleIds, id],
+        selectionAnchorId: id,
+      });
+      return;
+    }
+    const anchorIndex = subtitles.findIndex((sub) => sub.id === selectionAnchorId);
+    const index = subtitles.findIndex((sub) => sub.id === id);
+    if (mode === 'range' && anchorIndex !== -1 && index !== -1) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      set({ selectedSubtitleIds: subtitles.slice(from, to + 1).map((sub) => sub.id) });
+      return;
+    }
+    set({ selectedSubtitleIds: [id], selectionAnchorId: id });
+  },
+
+  selectSubtitlesInRange: (start, end, additive) => {
+    const [from, to] = start < end ? [start, end] : [end, start];
+    const inRange = get().subtitles.filter((sub) => sub.start < to && sub.end > from).map((sub) => sub.id);
+    set({
+      selectedSubtitleIds: additive ? [...new Set([...get().selectedSubtitleIds, ...inRange])] : inRange,
+      selectionAnchorId: inRange[0] ?? get().selectionAnchorId,
+    });
+  },
+
+  // Function to shift several subtitles, word timestamps included, by the same time
+  moveSubtitles: (ids, delta) => {
+    const prevState = get().subtitles;
+    const idSet = new Set(ids);
+    const moved = prevState.filter((sub) => idSet.has(sub.id));
+    if (moved.length === 0) return;
+    const clampedDelta = Math.max(delta, -Math.min(...moved.map((sub) => sub.start)));
+    if (clampedDelta === 0) return;
+
+    const shift = (time: number) => time + clampedDelta;
+    get()._addUndoState(snapshot(prevState));
+    set({
+      subtitles: prevState
+        .map((sub) => idSet.has(sub.id)
+          ? {
+              ...sub,
+              start: shift(sub.start),
+              end: shift(sub.end),
+              words: sub.words?.map((word) => ({ ...word, start: shift(word.start), end: shift(word.end) })),
+            }
+          : sub)
+        .sort((a, b) => a.start - b.start),
+    });
+  },
+
+  nudgeSubtitles: (ids, frames) => {
+    get().moveSubtitles(ids, frames / NUDGE_FRAME_RATE);
+  },
+
+  // Function to remove several subtitles at once
+  deleteSubtitles: (ids) => {
+    const prevState = get().subtitles;
+    const idSet = new Set(ids);
+    const nextSubtitles = prevState.filter((sub) => !idSet.has(sub.id));
+    if (nextSubtitles.length === prevState.length) return;
+
+    get()._addUndoState(snapshot(prevState));
+    set({
+      subtitles: nextSubtitles,
+      selectedSubtitleIds: get().selectedSubtitleIds.filter((id) => !idSet.has(id)),
+    });
+  },
+
+  setStyleOverride: (ids, override) => {
+    const idSet = new Set(ids);
+    get().updateSubtitles(get().subtitles
+      .filter((sub) => idSet.has(sub.id))
+      .map((sub) => {
+        const merged = override ? { ...sub.styleOverride, ...override } : undefined;
+        // Keys set to undefined fall back to the main style
+        const cleaned = merged && Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== undefined));
+        return { id: sub.id, changes: { styleOverride: cleaned && Object.keys(cleaned).length > 0 ? cleaned : undefined } };
+      }));
+  },
+
+  setProject: (projectId, trackId) => {
+    set({ projectId, trackId });
+  },
+
+  // Function to load saved subtitles (e.g. from a project); not undoable
+  loadSubtitles: (subtitles) => {
+    set({
+      subtitles: snapshot(subtitles).sort((a, b) => a.start - b.start),
+      undoStack: [],
+      redoStack: [],
+      selectedSubtitleIds: [],
+      selectionAnchorId: null,
+    });
+  },
+
+  // Function to restore an autosaved editor session, history included
+  restoreSession: ({ subtitles, undoStack, redoStack }) => {
+    set({
+      subtitles: snapshot(subtitles).sort((a, b) => a.start - b.start),
+      undoStack: undoStack.slice(0, MAX_HISTORY_LENGTH).map(snapshot),
+      redoStack: redoStack.slice(0, MAX_HISTORY_LENGTH).map(snapshot),
+      selectedSubtitleIds: [],
+      selectionAnchorId: null,
+    });
+  },
+
   undo: () => {
     const { undoStack, subtitles: presentState } = get();
     if (get()._canUndo()) {
@@ -0,0 +1,57 @@
+import type { Subtitle, SubtitleConfidence } from '~/store/subtitleStore';
+
+// Whisper's own thresholds for falling back to another decoding attempt
+const MIN_AVG_LOGPROB = -1;
+const MAX_NO_SPEECH_PROB = 0.6;
+const MAX_COMPRESSION_RATIO = 2.4;
+// Words below this probability are likely misheard
+const MIN_WORD_PROBABILITY = 0.4;
+
+/**
+ * Reasons a transcribed subtitle needs checking; empty for confident or
+ * manually written subtitles.
+ */
+export function getConfidenceIssues(subtitle: Subtitle): string[] {
+  const issues: string[] = [];
+  const { avgLogprob, noSpeechProb, compressionRatio } = subtitle.confidence ?? {};
+  if (avgLogprob !== undefined && avgLogprob < MIN_AVG_LOGPROB) {
+    issues.push(`low recognition confidence (avg. log prob ${avgLogprob.toFixed(2)})`);
+  }
+  if (noSpeechProb !== undefined && noSpeechProb > MAX_NO_SPEECH_PROB) {
+    issues.push(`possibly no speech (${Math.round(noSpeechProb * 100)}%)`);
+  }
+  if (compressionRatio !== undefined && compressionRatio > MAX_COMPRESSION_RATIO) {
+    issues.push(`repetitive text (compression ratio ${compressionRatio.toFixed(1)})`);
+  }
+  const uncertainWords = subtitle.words?.filter(word => word.probability !== undefined && word.probability < MIN_WORD_PROBABILITY) ?? [];
+  if (uncertainWords.length > 0) {
+    issues.push(`uncertain words: ${uncertainWords.map(word => word.word.trim()).join(', ')}`);
+  }
+  return issues;
+}
+
+export const isLowConfidence = (subtitle: Subtitle) => getConfidenceIssues(subtitle).length > 0;
+
+/**
+ * Returns the first low-confidence subtitle starting after the given time,
+ * wrapping around to the beginning.
+ */
+export function findNextLowConfidence(subtitles: Subtitle[], afterTime: number): Subtitle | null {
+  const uncertain = subtitles.filter(isLowConfidence).sort((a, b) => a.start - b.start);
+  return uncertain.find(sub => sub.start > afterTime) ?? uncertain[0] ?? null;
+}
+
+// Confidence of cues merged into one: the worst value of each metric, so they stay flagged for review
+export function mergeConfidence(sources: Subtitle[]): SubtitleConfidence | undefined {
+  const confidences = sources.flatMap(sub => (sub.confidence ? [sub.confidence] : []));
+  if (confidences.length === 0) return undefined;
+  const pick = (values: (number | undefined)[], choose: (...numbers: number[]) => number) => {
+    const defined = values.filter((value): value is number => value !== undefined);
+    return defined.length > 0 ? choose(...defined) : undefined;
+  };
+  return {
+    avgLogprob: pick(confidences.map(c => c.avgLogprob), Math.min),
+    noSpeechProb: pick(confidences.map(c => c.noSpeechProb), Math.max),
+    compressionRatio: pick(confidences.map(c => c.compressionRatio), Math.max),
+  };
+}
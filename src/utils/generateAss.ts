@@ -1,9 +1,32 @@
 import type { Subtitle } from '~/store/subtitleStore';
 import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
+import { getSpeakerName, resolveSubtitleStyle } from '~/utils/subtitleStyle';
+import { alignWordsToText, type TimedWord } from '~/utils/wordTiming';
+
+/**
+ * Returns one timed word per token of the subtitle text, with whether a
+ * manual line break follows it. Without Whisper word timestamps the cue
+ * duration is spread across its words.
+ */
+function getWordTimings(sub: Subtitle): (TimedWord & { lineBreakAfter: boolean })[] {
+  const tokens = [...sub.text.matchAll(/\S+/g)];
+  return alignWordsToText(sub.text, sub.words ?? [], sub.start, sub.end).map((word, index) => {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+    const lineBreakAfter = !!token && !!next && sub.text.slice(token.index + token[0].length, next.index).includes('\n');
+    return { ...word, lineBreakAfter };
+  });
+}
 
 /**
  * Generates an Advanced SubStation Alpha (ASS) subtitle file content
  * based on provided subtitles and style.
+ *
+ * Word effects are expressed in ASS itself so libass can render them in one pass:
+ * - cumulativePopOn: one event per revealed prefix, like the PNG renderer; the
+ *   opaque box (BorderStyle=3) is sized to the event's text, so it grows word
+ *   by word instead of showing the full line's box from the start
+ * - wordByWord: one event per word
  */
 export function generateAss(
   subs: Subtitle[],
@@ -50,30 +73,43 @@ export function generateAss(
     top: 8,
     custom: 7,
   };
-  const align = alignmentMap[style.position];
-
-  // Use zero margins for custom positioning
-  const margin = style.position === 'custom' ? 0 : 30;
-
-  // Build the ASS Style line
-  const styleLine = [
-    'Default',
-    (style.fontFamily.split(',')[0] ?? 'Arial').replace(/['"]/g, ''), // Fontname
-    exportFontSize,                          // Fontsize
-    makeColour(style.textColor, 1),          // PrimaryColour (text)
-    makeColour(style.textColor, 1),          // SecondaryColour
-    makeColour(style.bgColor, style.bgOpacity), // OutlineColour = box fill
-    '&H00000000',                            // BackColour (shadow, unused with BS=3)
-    0, 0, 0, 0,                             // Bold, Italic, Underline, StrikeOut
-    100, 100,                               // ScaleX, ScaleY
-    0, 0,                                   // Spacing, Angle
-    3,                                      // BorderStyle = opaque box
-    2,                                      // Outline (px) as padding
-    0,                                      // Shadow
-    align,                                  // Alignment
-    margin, margin, margin,                 // MarginL, MarginR, MarginV
-    1                                       // Encoding
-  ].join(',');
+  const effectType = style.effectType ?? 'none';
+
+  // Builds an ASS Style line; speakers get their own style with their colour and alignment
+  const buildStyleLine = (name: string, lineStyle: SubtitleStyle) => {
+    const align = alignmentMap[lineStyle.position];
+    // Use zero margins for custom positioning
+    const margin = lineStyle.position === 'custom' ? 0 : 30;
+    return [
+      name,
+      (lineStyle.fontFamily.split(',')[0] ?? 'Arial').replace(/['"]/g, ''), // Fontname
+      exportFontSize,                          // Fontsize
+      makeColour(lineStyle.textColor, 1),      // PrimaryColour (text)
+      makeColour(lineStyle.textColor, 1),      // SecondaryColour (karaoke, unused)
+      makeColour(lineStyle.bgColor, lineStyle.bgOpacity), // OutlineColour = box fill
+      '&H00000000',                            // BackColour (shadow, unused with BS=3)
+      0, 0, 0, 0,                             // Bold, Italic, Underline, StrikeOut
+      100, 100,                               // ScaleX, ScaleY
+      0, 0,                                   // Spacing, Angle
+      3,                                      // BorderStyle = opaque box
+      2,                                      // Outline (px) as padding
+      0,                                      // Shadow
+      align,                                  // Alignment
+      margin, margin, margin,                 // MarginL, MarginR, MarginV
+      1                                       // Encoding
+    ].join(',');
+  };
+
+  // ASS style names can't contain commas, so speakers are numbered
+  const speakerStyleNames = new Map(
+    Object.keys(style.speakers ?? {}).map((speaker, index) => [speaker, `Speaker${index + 1}`])
+  );
+  const styleLines = [
+    `Style: ${buildStyleLine('Default', style)}`,
+    ...[...speakerStyleNames].map(([speaker, name]) =>
+      `Style: ${buildStyleLine(name, resolveSubtitleStyle(style, { speaker }))}`
+    ),
+  ];
 
   // Script Info section
   const scriptInfo = `[Script Info]
@@ -87,7 +123,7 @@ ScaledBorderAndShadow: yes
   // Styles section
   const stylesSection = `[V4+ Styles]
 Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
-Style: ${styleLine}
+${styleLines.join('\n')}
 
 `;
 
@@ -97,35 +133,85 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
 `;
 
   // Time formatter seconds -> H:MM:SS.CS
+  // Work on whole centiseconds: (2.3 % 1) * 100 would floor to 29 because of float error
   const formatTime = (seconds: number) => {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = Math.floor(seconds % 60);
-    const cs = Math.floor((seconds % 1) * 100);
+    const totalCs = Math.max(0, Math.round(seconds * 100));
+    const h = Math.floor(totalCs / 360000);
+    const m = Math.floor((totalCs % 360000) / 6000);
+    const s = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
     return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
   };
 
-  // Add each subtitle as Dialogue
-  for (const sub of subs) {
-    const safeText = sub.text
+  const escapeText = (text: string) =>
+    text
       .replace(/\\/g, '\\\\')
       .replace(/\{/g, '\\{')
       .replace(/\}/g, '\\}')
       .replace(/\r?\n/g, '\\N');
 
+  // Add each subtitle as Dialogue
+  for (const sub of subs) {
+    const safeText = escapeText(sub.text);
+    const cueStyle = resolveSubtitleStyle(style, sub);
+    const styleName = (sub.speaker && speakerStyleNames.get(sub.speaker)) ?? 'Default';
+    const speakerName = sub.speaker ? getSpeakerName(style, sub.speaker).replace(/\s*,\s*/g, ' ') : '';
+    const dialogue = (start: number, end: number, text: string) =>
+      `Dialogue: 0,${formatTime(start)},${formatTime(end)},${styleName},${speakerName},0,0,0,,${text}\n`;
+
     // Custom positioning with scaling
     let positionTag = '';
     if (
-      style.position === 'custom' &&
-      typeof style.customX === 'number' &&
-      typeof style.customY === 'number'
+      cueStyle.position === 'custom' &&
+      typeof cueStyle.customX === 'number' &&
+      typeof cueStyle.customY === 'number'
     ) {
-      const x = Math.round(style.customX * scaleFactor);
-      const y = Math.round(style.customY * scaleFactor);
+      const x = Math.round(cueStyle.customX * scaleFactor);
+      const y = Math.round(cueStyle.customY * scaleFactor);
       positionTag = `{\\pos(${x},${y})}`;
     }
 
-    eventsSection += `Dialogue: 0,${formatTime(sub.start)},${formatTime(sub.end)},Default,,0,0,0,,${positionTag}${safeText}\n`;
+    // The cue's own style as inline override tags
+    const override = sub.styleOverride;
+    if (override) {
+      const alphaTag = (layer: number, opacity: number) =>
+        `\\${layer}a&H${Math.round((1 - opacity) * 255).toString(16).padStart(2, '0').toUpperCase()}&`;
+      let tags = '';
+      if (override.textColor) tags += `\\1c&H${hexToBgr(override.textColor)}&`;
+      if (override.bgColor) {
+        tags += override.bgColor === 'transparent'
+          ? alphaTag(3, 0)
+          : `\\3c&H${hexToBgr(override.bgColor)}&${alphaTag(3, cueStyle.bgOpacity)}`;
+      }
+      if (override.fontSize) tags += `\\fs${Math.max(1, Math.round(override.fontSize * scaleFactor))}`;
+      if (override.position) tags += `\\an${alignmentMap[override.position]}`;
+      if (tags) positionTag += `{${tags}}`;
+    }
+
+    const words = effectType === 'none' ? [] : getWordTimings(sub);
+
+    // Word events never show before the cue starts or after it ends
+    const clampToCue = (start: number, end: number) => [Math.max(sub.start, start), Math.min(sub.end, end)] as const;
+
+    if (effectType === 'wordByWord' && words.length > 0) {
+      for (const word of words) {
+        const [start, end] = clampToCue(word.start, word.end);
+        if (end <= start) continue;
+        eventsSection += dialogue(start, end, `${positionTag}${escapeText(word.word.trim())}`);
+      }
+    } else if (effectType === 'cumulativePopOn' && words.length > 0) {
+      // Each prefix shows from its last word's start until the next word starts, keeping the cue's line breaks
+      words.forEach((word, index) => {
+        const [start, end] = clampToCue(word.start, words[index + 1]?.start ?? sub.end);
+        if (end <= start) return;
+        const prefix = words.slice(0, index + 1)
+          .map((prefixWord, k) => escapeText(prefixWord.word.trim()) + (k === index ? '' : prefixWord.lineBreakAfter ? '\\N' : ' '))
+          .join('');
+        eventsSection += dialogue(start, end, `${positionTag}${prefix}`);
+      });
+    } else {
+      eventsSection += dialogue(sub.start, sub.end, `${positionTag}${safeText}`);
+    }
   }
 
   return scriptInfo + stylesSection + eventsSection;
@@ -6,6 +6,8 @@ import type { CanvasRenderingContext2D } from 'canvas';
 import { Canvas, registerFont, loadImage } from 'canvas';
 import path from 'path';
 import * as fsStandard from 'fs'; 
+import { resolveSubtitleStyle } from '~/utils/subtitleStyle';
+import type { SubtitleStyleOverride } from '~/store/subtitleStore';
 
 export interface LayoutMetrics {
   lines: string[];
@@ -177,7 +179,7 @@ export function calculateSubtitleLayoutMetrics(
 }
 
 /**
- * Renders a subtitle as PNG with the specified style
+ * Renders a subtitle as PNG with the specified style, using its speaker's colour if set
  */
 export async function renderSubtitleToPng(
   subtitle: Subtitle,
@@ -187,11 +189,13 @@ export async function renderSubtitleToPng(
   options?: {
     overrideLayoutMetrics?: LayoutMetrics;
     fixedCanvasSize?: { width: number; height: number };
+    outputDir?: string; // Directory for the PNG, defaults to the OS temp dir
   }
 ): Promise<string> {
+  const cueStyle = resolveSubtitleStyle(style, subtitle);
   // Calculate layout metrics or use provided ones
   const metrics = options?.overrideLayoutMetrics ?? 
-                  calculateSubtitleLayoutMetrics(subtitle.text, style, videoWidth, videoHeight);
+                  calculateSubtitleLayoutMetrics(subtitle.text, cueStyle, videoWidth, videoHeight);
   
   // Create canvas with appropriate dimensions
   const canvasWidth = options?.fixedCanvasSize?.width ?? metrics.boxWidth;
@@ -205,8 +209,8 @@ export async function renderSubtitleToPng(
   }
   
   // Draw background with rounded corners
-  ctx.fillStyle = style.bgColor;
-  ctx.globalAlpha = style.bgOpacity;
+  ctx.fillStyle = cueStyle.bgColor;
+  ctx.globalAlpha = cueStyle.bgOpacity;
   
   // Draw rounded rectangle
   const radius = metrics.radius;
@@ -227,7 +231,7 @@ export async function renderSubtitleToPng(
   ctx.globalAlpha = 1;
   
   // Draw text
-  ctx.fillStyle = style.textColor;
+  ctx.fillStyle = cueStyle.textColor;
   ctx.textBaseline = 'top';
   // Set font for rendering
   ctx.font = `normal ${metrics.fontSize}px "${metrics.fontFamily}"`;
@@ -252,7 +256,7 @@ export async function renderSubtitleToPng(
   }
   
   // Create temporary file
-  const tmpFile = await tmp.file({ postfix: '.png' });
+  const tmpFile = await tmp.file({ postfix: '.png', tmpdir: options?.outputDir });
   await fs.writeFile(tmpFile.path, canvas.toBuffer('image/png'));
   
   return tmpFile.path;
@@ -273,6 +277,7 @@ interface Subtitle {
   end: number;
   words?: WordTimestamp[];
   speaker?: string;
+  styleOverride?: SubtitleStyleOverride;
 }
 
 /**
@@ -292,7 +297,9 @@ export function splitSubtitleIntoWords(
         text: wordData.word,
         start: wordData.start,
         end: wordData.end,
-        words: [wordData]
+        words: [wordData],
+        speaker: subtitle.speaker,
+        styleOverride: subtitle.styleOverride
       };
     });
   }
@@ -315,7 +322,9 @@ export function splitSubtitleIntoWords(
           text: textToShow,
           start: startTime,
           end: finalEndTime,
-          words: wordTimestamps.slice(0, i + 1)
+          words: wordTimestamps.slice(0, i + 1),
+          speaker: subtitle.speaker,
+          styleOverride: subtitle.styleOverride
         });
       }
     }
@@ -344,6 +353,8 @@ export function splitSubtitleIntoWords(
         text: includedWords.join(' '),
         start: subtitle.start + index * wordDuration,
         end: index === words.length - 1 ? subtitle.end : subtitle.start + (index + 1) * wordDuration,
+        speaker: subtitle.speaker,
+        styleOverride: subtitle.styleOverride,
       };
     });
   } else if (effectType === 'wordByWord') {
@@ -354,6 +365,8 @@ export function splitSubtitleIntoWords(
         text: word,
         start: subtitle.start + index * wordDuration,
         end: subtitle.start + (index + 1) * wordDuration,
+        speaker: subtitle.speaker,
+        styleOverride: subtitle.styleOverride,
       };
     });
   }
@@ -365,55 +378,129 @@ export function splitSubtitleIntoWords(
 }
 
 /**
- * Builds a complex filter string for FFmpeg to overlay multiple PNGs
+ * Calculates the top-left position of a rendered subtitle PNG on the video frame
  */
-export function buildOverlayFilterComplex(
-  subtitles: Subtitle[],
-  pngPaths: string[],
+export function calculateOverlayPosition(
   style: SubtitleStyle,
   videoWidth: number,
-  videoHeight: number
-): string {
-  if (subtitles.length !== pngPaths.length) {
-    throw new Error('Number of subtitles and PNG paths must match');
+  videoHeight: number,
+  overlayWidth: number,
+  overlayHeight: number
+): { x: number; y: number } {
+  if (style.position === 'custom' && typeof style.customX === 'number' && typeof style.customY === 'number') {
+    const scaleFactor = videoHeight / 500;
+    return {
+      x: Math.round(style.customX * scaleFactor),
+      y: Math.round(style.customY * scaleFactor),
+    };
   }
 
-  const overlays: string[] = [];
-  let prevTag = '0:v';
-  
-  subtitles.forEach((sub, index) => {
-    const nextTag = `v${index + 1}`;
-    
-    let x: string;
-    let y: string;
-    
-    if (style.position === 'custom' && typeof style.customX === 'number' && typeof style.customY === 'number') {
-      const scaleFactor = videoHeight / 500;
-      x = String(Math.round(style.customX * scaleFactor));
-      y = String(Math.round(style.customY * scaleFactor));
+  const x = Math.round((videoWidth - overlayWidth) / 2);
+  switch (style.position) {
+    case 'top':
+      return { x, y: 50 };
+    case 'middle':
+      return { x, y: Math.round((videoHeight - overlayHeight) / 2) };
+    case 'bottom':
+    default:
+      return { x, y: videoHeight - overlayHeight - 50 };
+  }
+}
+
+export interface SubtitleLayerInterval {
+  start: number;
+  end: number;
+  activeIndices: number[]; // Indices of the subtitles visible during the interval, in drawing order
+}
+
+/**
+ * Splits the timeline into intervals during which the same set of subtitles is visible.
+ * Gaps without subtitles are included (empty activeIndices), starting at 0.
+ */
+export function buildSubtitleLayerTimeline(
+  subtitles: Array<{ start: number; end: number }>
+): SubtitleLayerInterval[] {
+  const MIN_INTERVAL = 0.001; // Ignore slivers shorter than a millisecond
+
+  const boundaries = Array.from(
+    new Set([0, ...subtitles.flatMap(sub => [Math.max(0, sub.start), Math.max(0, sub.end)])])
+  ).sort((a, b) => a - b);
+
+  const intervals: SubtitleLayerInterval[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i]!;
+    const end = boundaries[i + 1]!;
+    if (end - start < MIN_INTERVAL) continue;
+
+    const mid = (start + end) / 2;
+    const activeIndices = subtitles
+      .map((sub, index) => (sub.start <= mid && mid < sub.end ? index : -1))
+      .filter(index => index >= 0);
+
+    // Merge with the previous interval if nothing changed
+    const previous = intervals[intervals.length - 1];
+    if (previous && previous.activeIndices.join(',') === activeIndices.join(',')) {
+      previous.end = end;
+    } else if (previous && previous.end < start) {
+      // A skipped sliver leaves a hole; stretch the previous interval over it
+      previous.end = start;
+      intervals.push({ start, end, activeIndices });
     } else {
-      x = '(main_w-overlay_w)/2';
-      
-      switch (style.position) {
-        case 'top':
-          y = '50';
-          break;
-        case 'middle':
-          y = '(main_h-overlay_h)/2';
-          break;
-        case 'bottom':
-        default:
-          y = 'main_h-overlay_h-50';
-          break;
-      }
+      intervals.push({ start, end, activeIndices });
     }
-    
-    overlays.push(
-      `[${prevTag}][${index + 1}:v]overlay=${x}:${y}:enable='between(t,${sub.start},${sub.end})'[${nextTag}]`
-    );
-    
-    prevTag = nextTag;
-  });
-  
-  return overlays.join(';');
-} 
\ No newline at end of file
+  }
+
+  // The layer has to start at 0 even if the first sliver was skipped
+  if (intervals[0]) intervals[0].start = 0;
+
+  return intervals;
+}
+
+/**
+ * Renders one full-frame transparent PNG with the given subtitle PNGs drawn at their
+ * overlay positions. Used to pre-compose the subtitle layer so the video is encoded once.
+ * Each PNG is placed with its own style, so speakers can have their own position.
+ */
+export async function composeSubtitleLayerFrame(
+  layers: Array<{ pngPath: string; style: SubtitleStyle }>,
+  videoWidth: number,
+  videoHeight: number,
+  outputDir?: string
+): Promise<string> {
+  const canvas = createCanvas(videoWidth, videoHeight);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  for (const { pngPath, style } of layers) {
+    const image = await loadImage(pngPath);
+    const { x, y } = calculateOverlayPosition(style, videoWidth, videoHeight, image.width, image.height);
+    ctx.drawImage(image, x, y);
+  }
+
+  // Mostly transparent frames compress well even at a fast compression level
+  const tmpFile = await tmp.file({ postfix: '.png', tmpdir: outputDir });
+  await fs.writeFile(tmpFile.path, canvas.toBuffer('image/png', { compressionLevel: 1 }));
+
+  return tmpFile.path;
+}
+
+/**
+ * Builds an ffconcat script that shows each frame for its duration.
+ * The concat demuxer ignores the duration of the last entry, so it is listed twice.
+ */
+export function buildConcatList(frames: Array<{ path: string; duration: number }>): string {
+  const quote = (filePath: string) => `'${filePath.replace(/'/g, `'\\''`)}'`;
+  const lines = ['ffconcat version 1.0'];
+  for (const frame of frames) {
+    lines.push(`file ${quote(frame.path)}`);
+    lines.push(`duration ${frame.duration.toFixed(6)}`);
+  }
+  const lastFrame = frames[frames.length - 1];
+  if (lastFrame) {
+    lines.push(`file ${quote(lastFrame.path)}`);
+  }
+  return lines.join('\n') + '\n';
+}
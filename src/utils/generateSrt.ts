@@ -0,0 +1,38 @@
+import type { Subtitle } from '~/store/subtitleStore';
+
+/**
+ * Formats seconds as an SRT timestamp (HH:MM:SS,mmm)
+ */
+export function formatSrtTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Generates a SubRip (SRT) subtitle file from the subtitles in the store.
+ * Cues are numbered in start order; empty cues and cues without a positive
+ * duration are skipped because most players reject them.
+ */
+export function generateSrt(subs: Subtitle[]): string {
+  const cues = [...subs]
+    .filter(sub => sub.text.trim().length > 0 && sub.end > sub.start)
+    .sort((a, b) => a.start - b.start);
+
+  return cues
+    .map((sub, index) => {
+      // Manual ASS-style line breaks (\N) become real line breaks, blank lines
+      // are dropped since they would terminate the cue early
+      const text = sub.text
+        .split(/\\N|\\n|\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .join('\n');
+
+      return `${index + 1}\n${formatSrtTimestamp(sub.start)} --> ${formatSrtTimestamp(sub.end)}\n${text}\n`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,76 @@
+import type { Subtitle } from '~/store/subtitleStore';
+
+export interface VttOptions {
+  /** Emit word-level timestamp tags and <c> spans from Subtitle.words */
+  wordTimestamps?: boolean;
+}
+
+/**
+ * Formats seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+export function formatVttTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
+
+// Cue text must not contain raw &, < or > (escaping > also covers "-->")
+const escapeVttText = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Builds the cue payload with karaoke-style timestamp tags, e.g.
+ * `<c>Grüezi</c> <00:00:01.200><c>mitenand</c>`.
+ * Timestamps must lie strictly inside the cue and increase, otherwise
+ * the tag is left out and the word is shown with the previous one.
+ */
+function buildTimedCueText(sub: Subtitle): string {
+  const words = sub.words ?? [];
+  let lastTimestamp = sub.start;
+
+  return words
+    .map((word, index) => {
+      const text = `<c>${escapeVttText(word.word.trim())}</c>`;
+      if (index === 0) return text;
+
+      const wordStart = Math.round(word.start * 1000) / 1000;
+      if (wordStart > lastTimestamp && wordStart < sub.end) {
+        lastTimestamp = wordStart;
+        return `<${formatVttTimestamp(wordStart)}>${text}`;
+      }
+      return text;
+    })
+    .join(' ');
+}
+
+/**
+ * Generates a WebVTT subtitle file from the subtitles in the store.
+ */
+export function generateVtt(subs: Subtitle[], options: VttOptions = {}): string {
+  const cues = [...subs]
+    .filter(sub => sub.text.trim().length > 0 && sub.end > sub.start)
+    .sort((a, b) => a.start - b.start);
+
+  const body = cues
+    .map((sub, index) => {
+      const useWordTags = options.wordTimestamps && sub.words && sub.words.length > 0;
+      const text = useWordTags
+        ? buildTimedCueText(sub)
+        : sub.text
+            .split(/\\N|\\n|\r?\n/)
+            .map(line => escapeVttText(line.trim()))
+            .filter(line => line.length > 0)
+            .join('\n');
+
+      return `${index + 1}\n${formatVttTimestamp(sub.start)} --> ${formatVttTimestamp(sub.end)}\n${text}\n`;
+    })
+    .join('\n');
+
+  return `WEBVTT\n\n${body}`;
+}
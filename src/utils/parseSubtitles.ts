@@ -0,0 +1,410 @@
+import type { Subtitle, SubtitleWord } from '~/store/subtitleStore';
+
+export type SubtitleFileFormat = 'srt' | 'vtt' | 'ass';
+
+// A problem found while parsing, pointing at the (1-based) line in the source file
+export interface SubtitleParseIssue {
+  line: number;
+  message: string;
+}
+
+export interface SubtitleParseResult {
+  format: SubtitleFileFormat;
+  subtitles: Subtitle[];
+  issues: SubtitleParseIssue[];
+}
+
+// Parsed cue before it gets an ID assigned
+interface ParsedCue {
+  text: string;
+  start: number;
+  end: number;
+  words?: SubtitleWord[];
+}
+
+/**
+ * Guesses the subtitle format from the file extension, falling back to the content
+ */
+export function detectSubtitleFormat(fileName: string, content: string): SubtitleFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'ass' || extension === 'ssa') return 'ass';
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('[Script Info]') || /^Dialogue:/m.test(content)) return 'ass';
+  if (/\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(content)) return 'srt';
+  return null;
+}
+
+/**
+ * Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into seconds.
+ * Returns null for anything else.
+ */
+function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  const minutes = Number(m);
+  const seconds = Number(s);
+  if (minutes >= 60 || seconds >= 60) return null;
+  // Right-pad the fraction so "1.5" means 500 ms, like players interpret it
+  const ms = Number((frac ?? '0').padEnd(3, '0'));
+  return Number(h ?? 0) * 3600 + minutes * 60 + seconds + ms / 1000;
+}
+
+/**
+ * Parses the ASS time format "H:MM:SS.cc" into seconds
+ */
+function parseAssTimestamp(value: string): number | null {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})\.(\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  const fraction = Number(`0.${frac ?? '0'}`);
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + fraction;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+
+// Removes HTML-like markup (<i>, <font ...>, <c.class>, <v Speaker>) and ASS override blocks
+const stripMarkup = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{[^}]*\}/g, '');
+
+const normalizeCueText = (lines: string[]) =>
+  lines
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+
+/**
+ * Splits the input into blocks separated by blank lines, keeping the
+ * 1-based line number of the first line of each block.
+ */
+function splitBlocks(content: string): Array<{ line: number; lines: string[] }> {
+  const allLines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const blocks: Array<{ line: number; lines: string[] }> = [];
+  let current: { line: number; lines: string[] } | null = null;
+
+  allLines.forEach((line, index) => {
+    if (line.trim() === '') {
+      if (current) blocks.push(current);
+      current = null;
+      return;
+    }
+    current ??= { line: index + 1, lines: [] };
+    current.lines.push(line);
+  });
+  if (current) blocks.push(current);
+
+  return blocks;
+}
+
+/**
+ * Parses a timing line ("start --> end [settings]") and validates the range.
+ * Pushes an issue and returns null when the line is unusable.
+ */
+function parseTimingLine(
+  timingLine: string,
+  lineNumber: number,
+  issues: SubtitleParseIssue[]
+): { start: number; end: number } | null {
+  const [startRaw, rest] = timingLine.split('-->');
+  if (startRaw === undefined || rest === undefined) {
+    issues.push({ line: lineNumber, message: `Expected a timing line ("start --> end"), got "${timingLine.trim()}"` });
+    return null;
+  }
+  // WebVTT allows cue settings after the end timestamp
+  const endRaw = rest.trim().split(/\s+/)[0] ?? '';
+  const start = parseTimestamp(startRaw);
+  const end = parseTimestamp(endRaw);
+
+  if (start === null || end === null) {
+    issues.push({ line: lineNumber, message: `Invalid timestamp in "${timingLine.trim()}"` });
+    return null;
+  }
+  if (end <= start) {
+    issues.push({ line: lineNumber, message: `Cue ends before it starts (${startRaw.trim()} --> ${endRaw})` });
+    return null;
+  }
+  return { start, end };
+}
+
+const toSubtitles = (cues: ParsedCue[]): Subtitle[] => {
+  const idPrefix = `sub-${Date.now()}`;
+  return cues
+    .map((cue, index) => ({
+      id: `${idPrefix}-${index}`,
+      text: cue.text,
+      start: cue.start,
+      end: cue.end,
+      words: cue.words && cue.words.length > 0 ? cue.words : undefined,
+    }))
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Parses a SubRip (SRT) file
+ */
+export function parseSrt(content: string): SubtitleParseResult {
+  const issues: SubtitleParseIssue[] = [];
+  const cues: ParsedCue[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const lines = [...block.lines];
+    let lineNumber = block.line;
+
+    // The numeric counter is optional in practice, so only skip it if present
+    if (/^\d+$/.test(lines[0]?.trim() ?? '')) {
+      lines.shift();
+      lineNumber++;
+    }
+
+    const timingLine = lines.shift();
+    if (!timingLine?.includes('-->')) {
+      issues.push({ line: lineNumber, message: `Expected a timing line ("00:00:01,000 --> 00:00:02,000"), got "${timingLine?.trim() ?? ''}"` });
+      continue;
+    }
+
+    const timing = parseTimingLine(timingLine, lineNumber, issues);
+    if (!timing) continue;
+
+    const text = normalizeCueText(lines.map(line => decodeEntities(stripMarkup(line))));
+    if (!text) {
+      issues.push({ line: lineNumber, message: 'Cue has no text' });
+      continue;
+    }
+
+    cues.push({ text, ...timing });
+  }
+
+  return { format: 'srt', subtitles: toSubtitles(cues), issues };
+}
+
+/**
+ * Rebuilds word timings from inline WebVTT timestamp tags
+ * ("first <00:00:01.200>second"). Returns undefined when the cue has none.
+ */
+function parseVttWordTimings(rawText: string, start: number, end: number): SubtitleWord[] | undefined {
+  const parts = rawText.split(/<(\d{2}:\d{2}(?::\d{2})?\.\d{3})>/);
+  if (parts.length < 3) return undefined;
+
+  // parts alternates between text chunks and timestamps: text, ts, text, ts, text...
+  const chunks: Array<{ text: string; start: number }> = [{ text: parts[0] ?? '', start }];
+  for (let i = 1; i < parts.length; i += 2) {
+    const timestamp = parseTimestamp(parts[i] ?? '');
+    chunks.push({ text: parts[i + 1] ?? '', start: timestamp ?? chunks[chunks.length - 1]!.start });
+  }
+
+  const words: SubtitleWord[] = [];
+  chunks.forEach((chunk, index) => {
+    const chunkEnd = chunks[index + 1]?.start ?? end;
+    const chunkWords = decodeEntities(stripMarkup(chunk.text)).split(/\s+/).filter(w => w.length > 0);
+    if (chunkWords.length === 0) return;
+    // Several words between two timestamps share the interval evenly
+    const step = (chunkEnd - chunk.start) / chunkWords.length;
+    chunkWords.forEach((word, wordIndex) => {
+      words.push({
+        word,
+        start: chunk.start + wordIndex * step,
+        end: chunk.start + (wordIndex + 1) * step,
+      });
+    });
+  });
+
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * Parses a WebVTT file. NOTE, STYLE and REGION blocks are skipped.
+ */
+export function parseVtt(content: string): SubtitleParseResult {
+  const issues: SubtitleParseIssue[] = [];
+  const cues: ParsedCue[] = [];
+  const blocks = splitBlocks(content);
+
+  const header = blocks[0];
+  if (!header?.lines[0]?.startsWith('WEBVTT')) {
+    issues.push({ line: 1, message: 'Missing "WEBVTT" header' });
+  } else {
+    blocks.shift();
+  }
+
+  for (const block of blocks) {
+    const lines = [...block.lines];
+    let lineNumber = block.line;
+    const first = lines[0]?.trim() ?? '';
+
+    if (/^(NOTE|STYLE|REGION)\b/.test(first)) continue;
+
+    // Optional cue identifier before the timing line
+    if (!first.includes('-->') && lines[1]?.includes('-->')) {
+      lines.shift();
+      lineNumber++;
+    }
+
+    const timingLine = lines.shift();
+    if (!timingLine?.includes('-->')) {
+      issues.push({ line: lineNumber, message: `Expected a timing line ("00:00:01.000 --> 00:00:02.000"), got "${timingLine?.trim() ?? ''}"` });
+      continue;
+    }
+
+    const timing = parseTimingLine(timingLine, lineNumber, issues);
+    if (!timing) continue;
+
+    const text = normalizeCueText(lines.map(line => decodeEntities(stripMarkup(line))));
+    if (!text) {
+      issues.push({ line: lineNumber, message: 'Cue has no text' });
+      continue;
+    }
+
+    const words = parseVttWordTimings(lines.join(' '), timing.start, timing.end);
+    cues.push({ text, ...timing, words });
+  }
+
+  return { format: 'vtt', subtitles: toSubtitles(cues), issues };
+}
+
+/**
+ * Rebuilds word timings from ASS karaoke tags (\k, \K, \kf, \ko; centiseconds).
+ * Syllables are joined into words at whitespace. Returns undefined without karaoke tags.
+ */
+function parseAssKaraoke(rawText: string, start: number): SubtitleWord[] | undefined {
+  if (!/\\[kK][fo]?\d+/.test(rawText)) return undefined;
+
+  const words: SubtitleWord[] = [];
+  let current: SubtitleWord | null = null;
+  let cursor = start;
+  let syllableDuration = 0;
+
+  // Split into override blocks and the text between them
+  for (const token of rawText.split(/(\{[^}]*\})/)) {
+    if (token.startsWith('{')) {
+      const karaoke = /\\[kK][fo]?(\d+)/.exec(token);
+      if (karaoke) {
+        cursor += syllableDuration;
+        syllableDuration = Number(karaoke[1]) / 100;
+      }
+      continue;
+    }
+
+    const text = token.replace(/\\N|\\n|\\h/g, ' ');
+    for (const piece of text.split(/(\s+)/)) {
+      if (piece.length === 0) continue;
+      if (/^\s+$/.test(piece)) {
+        if (current) words.push(current);
+        current = null;
+        continue;
+      }
+      if (current) {
+        current.word += piece;
+        current.end = cursor + syllableDuration;
+      } else {
+        current = { word: piece, start: cursor, end: cursor + syllableDuration };
+      }
+    }
+  }
+  if (current) words.push(current);
+
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * Parses the Dialogue events of an Advanced SubStation Alpha (ASS/SSA) file.
+ * Styles and positioning are ignored; only text and timing are imported.
+ */
+export function parseAss(content: string): SubtitleParseResult {
+  const issues: SubtitleParseIssue[] = [];
+  const cues: ParsedCue[] = [];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  let inEvents = false;
+  let format: string[] | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (line.startsWith('Format:')) {
+      format = line.slice('Format:'.length).split(',').map(field => field.trim().toLowerCase());
+      return;
+    }
+    if (!line.startsWith('Dialogue:')) return;
+
+    if (!format) {
+      issues.push({ line: lineNumber, message: 'Dialogue event before the [Events] Format line' });
+      return;
+    }
+
+    // Text is the last field and may itself contain commas
+    const values = line.slice('Dialogue:'.length).split(',');
+    if (values.length < format.length) {
+      issues.push({ line: lineNumber, message: `Expected ${format.length} fields, got ${values.length}` });
+      return;
+    }
+    const fields = [
+      ...values.slice(0, format.length - 1),
+      values.slice(format.length - 1).join(','),
+    ].map(value => value.trim());
+    const field = (name: string) => fields[format!.indexOf(name)] ?? '';
+
+    const start = parseAssTimestamp(field('start'));
+    const end = parseAssTimestamp(field('end'));
+    if (start === null || end === null) {
+      issues.push({ line: lineNumber, message: `Invalid timestamp ("${field('start')}", "${field('end')}")` });
+      return;
+    }
+    if (end <= start) {
+      issues.push({ line: lineNumber, message: `Event ends before it starts (${field('start')} --> ${field('end')})` });
+      return;
+    }
+
+    const rawText = field('text');
+    const text = normalizeCueText(
+      rawText
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\\h/g, ' ')
+        .split(/\\N|\\n/)
+    );
+    if (!text) {
+      issues.push({ line: lineNumber, message: 'Event has no text' });
+      return;
+    }
+
+    cues.push({ text, start, end, words: parseAssKaraoke(rawText, start) });
+  });
+
+  if (!format && cues.length === 0 && issues.length === 0) {
+    issues.push({ line: 1, message: 'No [Events] section with Dialogue lines found' });
+  }
+
+  return { format: 'ass', subtitles: toSubtitles(cues), issues };
+}
+
+/**
+ * Detects the format of a subtitle file and parses it
+ */
+export function parseSubtitleFile(fileName: string, content: string): SubtitleParseResult {
+  const format = detectSubtitleFormat(fileName, content);
+  switch (format) {
+    case 'srt':
+      return parseSrt(content);
+    case 'vtt':
+      return parseVtt(content);
+    case 'ass':
+      return parseAss(content);
+    default:
+      throw new Error(`Unsupported subtitle file "${fileName}". Expected .srt, .vtt, .ass or .ssa`);
+  }
+}
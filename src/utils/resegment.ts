@@ -0,0 +1,211 @@
+import type { Subtitle } from '~/store/subtitleStore';
+import { mergeConfidence } from '~/utils/confidence';
+import { distributeWords, tokenizeText, type TimedWord } from '~/utils/wordTiming';
+
+// Targets for re-segmented cues; durations and gaps are in seconds
+export interface ResegmentOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCharsPerSecond: number;
+  minDuration: number;
+  maxDuration: number;
+  minGap: number; // Between consecutive cues
+}
+
+// Short lines for vertical video, at a comfortable reading speed
+export const DEFAULT_RESEGMENT_OPTIONS: ResegmentOptions = {
+  maxCharsPerLine: 32,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDuration: 1,
+  maxDuration: 6,
+  minGap: 0.08,
+};
+
+// Cues further apart than this are never merged
+const MAX_MERGE_PAUSE = 1;
+
+// Costs of a segmentation: every cue adds CUE_COST, so few full cues win, and
+// breaking mid-phrase adds up to BREAK_COST unless punctuation or a pause marks a break
+const CUE_COST = 4;
+const BREAK_COST = 10;
+const SENTENCE_END = /[.!?…]["»'’)]*$/;
+const CLAUSE_END = /[,;:–—]["»'’)]*$/;
+
+interface StreamWord extends TimedWord {
+  source: Subtitle;
+}
+
+// Consecutive cues of one speaker whose words may be split and merged freely
+interface WordStream {
+  cues: Subtitle[];
+  words: StreamWord[];
+}
+
+const cueWords = (sub: Subtitle): StreamWord[] => {
+  const words = sub.words?.length
+    ? sub.words.map(word => ({ ...word, word: word.word.trim() })).filter(word => word.word)
+    : distributeWords(tokenizeText(sub.text), sub.start, sub.end);
+  return words.map(word => ({ ...word, source: sub }));
+};
+
+const toTimedWord = ({ word, start, end, probability }: StreamWord): TimedWord =>
+  probability === undefined ? { word, start, end } : { word, start, end, probability };
+
+// Number of lines the words wrap to at maxCharsPerLine
+function countLines(words: StreamWord[], maxCharsPerLine: number): number {
+  let lines = 1;
+  let lineLength = 0;
+  for (const { word } of words) {
+    if (lineLength > 0 && lineLength + 1 + word.length > maxCharsPerLine) {
+      lines++;
+      lineLength = word.length;
+    } else {
+      lineLength += (lineLength > 0 ? 1 : 0) + word.length;
+    }
+  }
+  return lines;
+}
+
+// Cost of ending a cue after `word`, lower at punctuation and before pauses
+function breakCost(word: StreamWord, next: StreamWord | undefined): number {
+  if (!next) return 0;
+  const punctuationBonus = SENTENCE_END.test(word.word) ? BREAK_COST : CLAUSE_END.test(word.word) ? 6 : 0;
+  const pauseBonus = Math.min(8, Math.max(0, next.start - word.end) * 16);
+  return Math.max(0, BREAK_COST - punctuationBonus - pauseBonus);
+}
+
+/**
+ * Splits a word stream into cues with the lowest total cost. Cues must fit
+ * maxLines lines and maxDuration (single words always fit); reading speed
+ * and minimum duration are weighed in as costs. Returns [start, end) word
+ * index ranges.
+ */
+function segmentWords(words: StreamWord[], options: ResegmentOptions): [number, number][] {
+  const maxChars = options.maxCharsPerLine * options.maxLines;
+  const best = new Array<number>(words.length + 1).fill(Infinity);
+  const previous = new Array<number>(words.length + 1).fill(0);
+  best[0] = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    if (best[i] === Infinity) continue;
+    let chars = -1;
+    for (let j = i + 1; j <= words.length; j++) {
+      chars += 1 + words[j - 1]!.word.length;
+      const duration = words[j - 1]!.end - words[i]!.start;
+      if (j > i + 1 && (chars > maxChars || duration > options.maxDuration)) break;
+      if (j > i + 1 && countLines(words.slice(i, j), options.maxCharsPerLine) > options.maxLines) break;
+
+      let cost = CUE_COST + breakCost(words[j - 1]!, words[j]);
+      if (duration < options.minDuration) {
+        cost += 6 * (1 - duration / options.minDuration);
+      }
+      const charsPerSecond = chars / Math.max(duration, options.minDuration);
+      if (charsPerSecond > options.maxCharsPerSecond) {
+        cost += 10 * (charsPerSecond / options.maxCharsPerSecond - 1);
+      }
+
+      if (best[i]! + cost < best[j]!) {
+        best[j] = best[i]! + cost;
+        previous[j] = i;
+      }
+    }
+  }
+
+  const ranges: [number, number][] = [];
+  for (let end = words.length; end > 0; end = previous[end]!) {
+    ranges.unshift([previous[end]!, end]);
+  }
+  return ranges;
+}
+
+/**
+ * Re-segments subtitles by their word timestamps: long cues are split and
+ * short neighbours merged so cues fit the line, reading speed and duration
+ * targets, breaking preferably at punctuation and pauses. Only cues in
+ * targetIds (all if null) are touched; cues of different speakers or more
+ * than a second apart are never merged. Returns the full new subtitle list
+ * and how many cues were replaced.
+ */
+export function resegmentSubtitles(
+  subtitles: Subtitle[],
+  targetIds: Set<string> | null,
+  options: ResegmentOptions = DEFAULT_RESEGMENT_OPTIONS
+): { subtitles: Subtitle[]; replacedCount: number } {
+  const sorted = [...subtitles].sort((a, b) => a.start - b.start);
+  const isTarget = (sub: Subtitle) => (targetIds === null || targetIds.has(sub.id)) && sub.text.trim() !== '';
+
+  // Group the targets into streams; any other cue in between ends a stream
+  const streams: WordStream[] = [];
+  let current: WordStream | null = null;
+  for (const sub of sorted) {
+    if (!isTarget(sub)) {
+      current = null;
+      continue;
+    }
+    const last = current?.cues[current.cues.length - 1];
+    if (!current || !last || last.speaker !== sub.speaker || sub.start - last.end > MAX_MERGE_PAUSE) {
+      current = { cues: [], words: [] };
+      streams.push(current);
+    }
+    current.cues.push(sub);
+    current.words.push(...cueWords(sub));
+  }
+
+  const idPrefix = `sub-${Date.now()}`;
+  let nextId = 0;
+  let replacedCount = 0;
+  const newIds = new Set<string>();
+  const replacements = new Map<string, Subtitle[]>(); // By ID of the stream's first cue
+
+  for (const stream of streams) {
+    const ranges = segmentWords(stream.words, options);
+    const unchanged = ranges.length === stream.cues.length && ranges.every(([start, end], index) => {
+      const cue = stream.cues[index]!;
+      return stream.words.slice(start, end).every(word => word.source === cue) &&
+        stream.words.filter(word => word.source === cue).length === end - start;
+    });
+    if (unchanged) continue;
+
+    replacedCount += stream.cues.length;
+    const firstCue = stream.cues[0]!;
+    // Timings spread over cues without words are only estimates and not stored
+    const hasWordTimings = stream.cues.some(cue => cue.words?.length);
+    const lastCue = stream.cues[stream.cues.length - 1]!;
+    replacements.set(firstCue.id, ranges.map(([start, end], index) => {
+      const words = stream.words.slice(start, end);
+      const sources = [...new Set(words.map(word => word.source))];
+      const id = `${idPrefix}-${nextId++}`;
+      newIds.add(id);
+      return {
+        id,
+        text: words.map(word => word.word).join(' '),
+        // The stream keeps its outer boundaries; inner ones follow the words
+        start: index === 0 ? firstCue.start : words[0]!.start,
+        end: index === ranges.length - 1 ? lastCue.end : words[words.length - 1]!.end,
+        words: hasWordTimings ? words.map(toTimedWord) : undefined,
+        confidence: mergeConfidence(sources),
+        speaker: firstCue.speaker,
+      };
+    }));
+  }
+
+  if (replacedCount === 0) return { subtitles, replacedCount };
+
+  const replacedIds = new Set(streams.flatMap(stream => replacements.has(stream.cues[0]!.id) ? stream.cues.map(cue => cue.id) : []));
+  const result = sorted.flatMap(sub => replacements.get(sub.id) ?? (replacedIds.has(sub.id) ? [] : [sub]));
+
+  // Give new cues their minimum duration and reading time where the next cue leaves room, and keep the gap
+  result.forEach((sub, index) => {
+    if (!newIds.has(sub.id)) return;
+    const nextStart = result[index + 1]?.start ?? Infinity;
+    const latestEnd = nextStart - options.minGap;
+    const wantedDuration = Math.min(options.maxDuration, Math.max(options.minDuration, sub.text.length / options.maxCharsPerSecond));
+    sub.end = Math.max(sub.end, Math.min(sub.start + wantedDuration, latestEnd));
+    if (sub.end > latestEnd) {
+      sub.end = Math.max(sub.start + 0.1, latestEnd);
+    }
+  });
+
+  return { subtitles: result, replacedCount };
+}
@@ -0,0 +1,145 @@
+import type { Subtitle } from '~/store/subtitleStore';
+import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
+
+// Editor state saved in IndexedDB so a refresh or crash does not lose edits
+export interface EditorSession {
+  videoKey: string; // Identifies the video the session belongs to, see getFileVideoKey / getAssetVideoKey
+  videoName: string;
+  subtitles: Subtitle[];
+  undoStack: Subtitle[][];
+  redoStack: Subtitle[][];
+  style: SubtitleStyle;
+  savedAt: number; // Epoch milliseconds
+}
+
+// Further keys of a session's video (e.g. its uploaded asset) point to the session's record
+interface SessionAlias {
+  videoKey: string;
+  aliasOf: string;
+}
+
+type SessionRecord = EditorSession | SessionAlias;
+
+const isAlias = (record: SessionRecord): record is SessionAlias => 'aliasOf' in record;
+
+const DB_NAME = 'swiss-subtitles';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const SAVED_AT_INDEX = 'savedAt'; // Only sessions have savedAt, so aliases are not in this index
+const ALIAS_INDEX = 'aliasOf';
+const MAX_SESSIONS = 20; // Older sessions are pruned on save
+
+// A local file is identified by name, size and modification time
+export const getFileVideoKey = (file: File) => `file:${file.name}:${file.size}:${file.lastModified}`;
+export const getAssetVideoKey = (assetId: string) => `asset:${assetId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openSessionDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(SESSION_STORE)
+        ? request.transaction!.objectStore(SESSION_STORE)
+        : db.createObjectStore(SESSION_STORE, { keyPath: 'videoKey' });
+      if (!store.indexNames.contains(SAVED_AT_INDEX)) store.createIndex(SAVED_AT_INDEX, 'savedAt');
+      if (!store.indexNames.contains(ALIAS_INDEX)) store.createIndex(ALIAS_INDEX, 'aliasOf');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a retry
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+  });
+  return dbPromise;
+}
+
+// Runs requests in one transaction and resolves once it completes
+async function runTransaction(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openSessionDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    run(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// Deletes a session and the aliases pointing to it, within the caller's transaction
+function deleteSessionRecords(store: IDBObjectStore, videoKey: string) {
+  store.delete(videoKey);
+  const aliasKeys = store.index(ALIAS_INDEX).getAllKeys(videoKey);
+  aliasKeys.onsuccess = () => aliasKeys.result.forEach(key => store.delete(key));
+}
+
+/**
+ * Loads the session saved for a video, following an alias to the session
+ * saved under another key of the same video.
+ */
+export async function loadSession(videoKey: string): Promise<EditorSession | null> {
+  let session: EditorSession | null = null;
+  await runTransaction('readonly', store => {
+    const request = store.get(videoKey) as IDBRequest<SessionRecord | undefined>;
+    request.onsuccess = () => {
+      const record = request.result;
+      if (!record || !isAlias(record)) {
+        session = record ?? null;
+        return;
+      }
+      const target = store.get(record.aliasOf) as IDBRequest<SessionRecord | undefined>;
+      target.onsuccess = () => {
+        session = target.result && !isAlias(target.result) ? target.result : null;
+      };
+    };
+  });
+  return session;
+}
+
+export async function deleteSession(videoKey: string): Promise<void> {
+  await runTransaction('readwrite', store => deleteSessionRecords(store, videoKey));
+}
+
+/**
+ * Saves a session under the first key of its video, with the other keys
+ * (e.g. its uploaded asset) as aliases. If the first key is already an alias,
+ * e.g. a project reopened without its local file, the session it points to is
+ * updated instead. Prunes the oldest sessions beyond MAX_SESSIONS by walking
+ * the savedAt index by key, so stored sessions and their histories are never read.
+ */
+export async function saveSession(session: Omit<EditorSession, 'videoKey'>, videoKeys: string[]): Promise<void> {
+  const [primaryKey] = videoKeys;
+  if (!primaryKey) return;
+  await runTransaction('readwrite', store => {
+    const existing = store.get(primaryKey) as IDBRequest<SessionRecord | undefined>;
+    existing.onsuccess = () => {
+      const record = existing.result;
+      const sessionKey = record && isAlias(record) ? record.aliasOf : primaryKey;
+      store.put({ ...session, videoKey: sessionKey });
+      videoKeys
+        .filter(videoKey => videoKey !== sessionKey)
+        .forEach(videoKey => store.put({ videoKey, aliasOf: sessionKey } satisfies SessionAlias));
+      pruneSessions(store);
+    };
+  });
+}
+
+// Deletes the oldest sessions beyond MAX_SESSIONS, within the caller's transaction
+function pruneSessions(store: IDBObjectStore) {
+  const savedAtIndex = store.index(SAVED_AT_INDEX);
+  const countRequest = savedAtIndex.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_SESSIONS;
+    if (excess <= 0) return;
+    // Oldest first
+    const cursorRequest = savedAtIndex.openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      deleteSessionRecords(store, cursor.primaryKey as string);
+      excess--;
+      cursor.continue();
+    };
+  };
+}
@@ -0,0 +1,68 @@
+import type { Subtitle } from '~/store/subtitleStore';
+import { mergeConfidence } from '~/utils/confidence';
+import { alignWordsToText, distributeWords, tokenizeText, type TimedWord } from '~/utils/wordTiming';
+
+/**
+ * Splits a subtitle at the word boundary nearest to time; the first half
+ * keeps the subtitle's ID, the second gets secondId. With word timestamps the
+ * cues meet between the two words; without, word times are estimated from the
+ * text and the cues meet at time. Returns null if time is outside the cue or
+ * the text has a single word.
+ */
+export function splitSubtitleAt(subtitle: Subtitle, time: number, secondId: string): [Subtitle, Subtitle] | null {
+  if (time <= subtitle.start || time >= subtitle.end) return null;
+  const tokens = tokenizeText(subtitle.text);
+  // One word per token, so text and words split at the same place
+  const hasWords = !!subtitle.words?.length;
+  const words: TimedWord[] = hasWords
+    ? alignWordsToText(subtitle.text, subtitle.words!, subtitle.start, subtitle.end)
+    : distributeWords(tokens, subtitle.start, subtitle.end);
+  if (words.length < 2) return null;
+
+  // Boundary k lies between words[k - 1] and words[k]
+  const boundaryTime = (k: number) => (words[k - 1]!.end + words[k]!.start) / 2;
+  let splitIndex = 1;
+  for (let k = 2; k < words.length; k++) {
+    if (Math.abs(boundaryTime(k) - time) < Math.abs(boundaryTime(splitIndex) - time)) splitIndex = k;
+  }
+  const splitTime = hasWords ? boundaryTime(splitIndex) : time;
+
+  // Cut the original text where the second half's first word starts, so line breaks survive
+  const wordOffsets = [...subtitle.text.matchAll(/\S+/g)].map(match => match.index);
+  const splitOffset = wordOffsets[splitIndex] ?? subtitle.text.length;
+
+  return [
+    {
+      ...subtitle,
+      text: subtitle.text.slice(0, splitOffset).trimEnd(),
+      end: splitTime,
+      words: hasWords ? words.slice(0, splitIndex) : undefined,
+    },
+    {
+      ...subtitle,
+      id: secondId,
+      text: subtitle.text.slice(splitOffset).trimStart(),
+      start: splitTime,
+      words: hasWords ? words.slice(splitIndex) : undefined,
+    },
+  ];
+}
+
+/**
+ * Joins two subtitles into one spanning both, with the first one's ID. Word
+ * timestamps are kept if either cue has them, estimated from the text for the
+ * other.
+ */
+export function mergeSubtitlePair(first: Subtitle, second: Subtitle): Subtitle {
+  const hasWords = !!first.words?.length || !!second.words?.length;
+  const wordsOf = (sub: Subtitle) => sub.words?.length ? sub.words : distributeWords(tokenizeText(sub.text), sub.start, sub.end);
+  return {
+    ...first,
+    text: [first.text.trim(), second.text.trim()].filter(Boolean).join(' '),
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    words: hasWords ? [...wordsOf(first), ...wordsOf(second)] : undefined,
+    confidence: mergeConfidence([first, second]),
+    speaker: first.speaker ?? second.speaker,
+  };
+}
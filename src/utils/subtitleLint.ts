@@ -0,0 +1,156 @@
+import type { Subtitle } from '~/store/subtitleStore';
+
+// Limits the subtitles are checked against; durations are in seconds
+export interface SubtitleLintProfile {
+  id: string;
+  name: string;
+  minDuration: number;
+  maxCharsPerSecond: number;
+  maxLines: number;
+  minGapFrames: number;
+  frameRate: number;
+}
+
+export const LINT_PROFILES: SubtitleLintProfile[] = [
+  // Netflix timed text style guide: 5/6 s minimum, 20 CPS for adult content, two lines, two-frame gaps
+  { id: 'netflix', name: 'Netflix-style', minDuration: 5 / 6, maxCharsPerSecond: 20, maxLines: 2, minGapFrames: 2, frameRate: 25 },
+  // Short-form vertical video: quick cues, slower reading, narrow frame allows a third line
+  { id: 'tiktok', name: 'TikTok / Reels', minDuration: 0.5, maxCharsPerSecond: 15, maxLines: 3, minGapFrames: 2, frameRate: 30 },
+];
+
+// How subtitle text is laid out in the preview, for counting wrapped lines
+export interface SubtitleLintLayout {
+  textWidth: number; // Pixels available per line
+  measureText: (text: string) => number; // Width in pixels at the current font and size
+}
+
+export type SubtitleLintKind = 'empty' | 'overlap' | 'short' | 'cps' | 'lines' | 'gap' | 'pastEnd';
+
+export interface SubtitleLintIssue {
+  key: string; // Unique per issue, e.g. for React lists
+  subtitleId: string;
+  kind: SubtitleLintKind;
+  severity: 'error' | 'warning';
+  message: string;
+  // One-click fix, applied with updateSubtitle
+  fix?: { label: string; changes: Partial<Omit<Subtitle, 'id'>> };
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Characters a viewer reads, ignoring line breaks and repeated spaces
+export const countReadableChars = (text: string) => text.replace(/\s+/g, ' ').trim().length;
+
+// Lines the text wraps to, breaking between words like the preview does
+export function countWrappedLines(text: string, layout: SubtitleLintLayout): number {
+  let lines = 0;
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    lines++;
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && layout.measureText(candidate) > layout.textWidth) {
+        lines++;
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Checks every cue against the profile: empty text, overlaps, gaps under the
+ * minimum, short cues, reading speed, line count (if a layout is given) and
+ * cues past the end of the video. Fixes only move a cue's end and never push
+ * it into the next cue or past the video.
+ */
+export function lintSubtitles(
+  subtitles: Subtitle[],
+  profile: SubtitleLintProfile,
+  options: { videoDuration: number; layout?: SubtitleLintLayout }
+): SubtitleLintIssue[] {
+  const { videoDuration, layout } = options;
+  const minGap = profile.minGapFrames / profile.frameRate;
+  const sorted = [...subtitles].sort((a, b) => a.start - b.start);
+  const issues: SubtitleLintIssue[] = [];
+  const add = (sub: Subtitle, issue: Omit<SubtitleLintIssue, 'key' | 'subtitleId'>) =>
+    issues.push({ ...issue, key: `${issue.kind}-${sub.id}`, subtitleId: sub.id });
+
+  sorted.forEach((sub, index) => {
+    const next = sorted[index + 1];
+    const duration = sub.end - sub.start;
+    const chars = countReadableChars(sub.text);
+    // Latest end that keeps the minimum gap to the next cue and stays within the video
+    const latestEnd = Math.min(next ? next.start - minGap : Infinity, videoDuration > 0 ? videoDuration : Infinity);
+    const extendTo = (end: number) => (end <= latestEnd ? round(end) : null);
+
+    if (chars === 0) {
+      add(sub, { kind: 'empty', severity: 'error', message: 'Cue has no text' });
+    }
+
+    if (videoDuration > 0 && sub.end > videoDuration) {
+      add(sub, {
+        kind: 'pastEnd',
+        severity: 'error',
+        message: sub.start >= videoDuration
+          ? 'Cue starts after the end of the video'
+          : `Cue runs ${(sub.end - videoDuration).toFixed(2)}s past the end of the video`,
+        fix: sub.start < videoDuration ? { label: 'End with the video', changes: { end: round(videoDuration) } } : undefined,
+      });
+    }
+
+    if (next && sub.end > next.start) {
+      const end = round(next.start - minGap);
+      add(sub, {
+        kind: 'overlap',
+        severity: 'error',
+        message: `Overlaps the next cue by ${(sub.end - next.start).toFixed(2)}s`,
+        fix: end > sub.start ? { label: 'End before the next cue', changes: { end } } : undefined,
+      });
+    } else if (next && next.start - sub.end < minGap - 1e-6) {
+      const end = round(next.start - minGap);
+      add(sub, {
+        kind: 'gap',
+        severity: 'warning',
+        message: `Gap to the next cue is under ${profile.minGapFrames} frames`,
+        fix: end > sub.start ? { label: `Leave a ${profile.minGapFrames}-frame gap`, changes: { end } } : undefined,
+      });
+    }
+
+    if (duration < profile.minDuration) {
+      const end = extendTo(sub.start + profile.minDuration);
+      add(sub, {
+        kind: 'short',
+        severity: 'warning',
+        message: `Shown for ${duration.toFixed(2)}s, minimum is ${profile.minDuration.toFixed(2)}s`,
+        fix: end !== null ? { label: 'Extend to the minimum', changes: { end } } : undefined,
+      });
+    }
+
+    const charsPerSecond = duration > 0 ? chars / duration : Infinity;
+    if (chars > 0 && charsPerSecond > profile.maxCharsPerSecond) {
+      const end = extendTo(sub.start + chars / profile.maxCharsPerSecond);
+      add(sub, {
+        kind: 'cps',
+        severity: 'warning',
+        message: `${Number.isFinite(charsPerSecond) ? charsPerSecond.toFixed(1) : '∞'} characters per second, limit is ${profile.maxCharsPerSecond}`,
+        fix: end !== null ? { label: 'Extend for reading time', changes: { end } } : undefined,
+      });
+    }
+
+    if (layout && chars > 0) {
+      const lines = countWrappedLines(sub.text, layout);
+      if (lines > profile.maxLines) {
+        add(sub, {
+          kind: 'lines',
+          severity: 'warning',
+          message: `Wraps to ${lines} lines at the current font size, limit is ${profile.maxLines}`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
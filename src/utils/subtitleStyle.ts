@@ -0,0 +1,93 @@
+import type { SpeakerStyle, SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
+import type { SubtitleStyleOverride } from '~/store/subtitleStore';
+
+// Font sizes offered in the style panel and the batch bar
+export const FONT_SIZE_RANGE = {
+  min: 12,
+  max: 36,
+  step: 1
+};
+
+// Text colours offered in the style panel and the batch bar
+export const TEXT_COLOR_OPTIONS = [
+  { id: 'white', name: 'White', value: '#FFFFFF' },
+  { id: 'yellow', name: 'Yellow', value: '#FFFF00' },
+  { id: 'cyan', name: 'Cyan', value: '#00FFFF' },
+  { id: 'lime', name: 'Lime', value: '#CCFF00' },
+  { id: 'pink', name: 'Pink', value: '#FF66CC' },
+  { id: 'orange', name: 'Orange', value: '#FF9900' },
+  { id: 'red', name: 'Red', value: '#FF0000' },
+  { id: 'black', name: 'Black', value: '#000000' },
+];
+
+// Background colours offered in the style panel and the batch bar
+export const BG_COLOR_OPTIONS = [
+  { id: 'black', name: 'Black', value: '#000000' },
+  { id: 'darkgray', name: 'Dark Gray', value: '#333333' },
+  { id: 'blue', name: 'Blue', value: '#0000CC' },
+  { id: 'purple', name: 'Purple', value: '#6600CC' },
+  { id: 'red', name: 'Red', value: '#CC0000' },
+  { id: 'green', name: 'Green', value: '#006600' },
+  { id: 'teal', name: 'Teal', value: '#008888' },
+  { id: 'none', name: 'None', value: 'transparent' },
+];
+
+// Text colours given to newly detected speakers, in order
+export const SPEAKER_COLORS = ['#FFFFFF', '#FFE14D', '#7FDBFF', '#FF9F80', '#B5F28C', '#E0A3FF'];
+
+/**
+ * Returns the style a subtitle is rendered with: the main style with the
+ * colour and position of its speaker, if the speaker has its own, and the
+ * cue's own style override on top.
+ */
+export function resolveSubtitleStyle(
+  style: SubtitleStyle,
+  subtitle: { speaker?: string; styleOverride?: SubtitleStyleOverride }
+): SubtitleStyle {
+  const speakerStyle = subtitle.speaker ? style.speakers?.[subtitle.speaker] : undefined;
+  const override = subtitle.styleOverride;
+  if (!speakerStyle && !override) return style;
+
+  const resolved: SubtitleStyle = { ...style, textColor: speakerStyle?.textColor ?? style.textColor };
+  if (speakerStyle?.position) {
+    resolved.position = speakerStyle.position;
+    resolved.customX = speakerStyle.customX;
+    resolved.customY = speakerStyle.customY;
+  }
+  if (override) {
+    resolved.textColor = override.textColor ?? resolved.textColor;
+    resolved.bgColor = override.bgColor ?? resolved.bgColor;
+    resolved.fontSize = override.fontSize ?? resolved.fontSize;
+    resolved.position = override.position ?? resolved.position;
+  }
+  return resolved;
+}
+
+// Display name of a speaker, falling back to its ID
+export const getSpeakerName = (style: SubtitleStyle, speaker: string) => style.speakers?.[speaker]?.name ?? speaker;
+
+/**
+ * Adds a style with a name and a colour of its own for every speaker that has
+ * none yet. Returns null if all speakers already have one.
+ */
+export function addSpeakerStyles(
+  speakers: Record<string, SpeakerStyle> | undefined,
+  speakerIds: string[]
+): Record<string, SpeakerStyle> | null {
+  const next = { ...speakers };
+  let added = false;
+  for (const id of speakerIds) {
+    if (next[id]) continue;
+    const count = Object.keys(next).length;
+    next[id] = { name: `Speaker ${count + 1}`, textColor: SPEAKER_COLORS[count % SPEAKER_COLORS.length] };
+    added = true;
+  }
+  return added ? next : null;
+}
+
+// Unused speaker ID for a speaker added by hand
+export function createSpeakerId(speakers: Record<string, SpeakerStyle> | undefined): string {
+  let index = Object.keys(speakers ?? {}).length + 1;
+  while (speakers?.[`speaker_${index}`]) index++;
+  return `speaker_${index}`;
+}
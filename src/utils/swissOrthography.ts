@@ -0,0 +1,77 @@
+import type { Subtitle } from '~/store/subtitleStore';
+
+// Swiss thousands separator, e.g. 1'000 and 250'000
+const THOUSANDS_SEPARATOR = "'";
+
+// Double quote marks of German, English and French style, all rewritten to «…»
+const DOUBLE_QUOTES = /["„“”«»]/g;
+// A quote opens at the start, after whitespace or an opening bracket
+const OPENS_QUOTE = /[\s([{–—]/;
+
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, THOUSANDS_SEPARATOR);
+
+function normalizeQuotes(text: string): string {
+  let result = text.replace(DOUBLE_QUOTES, (_quote, offset: number, full: string) => {
+    const before = full[offset - 1];
+    return before === undefined || OPENS_QUOTE.test(before) ? '«' : '»';
+  });
+  // German single quotes ‚…‘ become ‹…›; ’ and ' stay, they are mostly apostrophes
+  result = result.replace(/‚([^‘’]*)[‘’]/g, '‹$1›');
+  return result;
+}
+
+// Amounts are written "CHF 12.50", round ones "CHF 12.–"
+function normalizeCurrency(text: string): string {
+  const formatAmount = (amount: string, cents?: string) => {
+    const whole = groupThousands(amount.replace(/[.'’]/g, ''));
+    if (cents === undefined) return `CHF ${whole}`;
+    return `CHF ${whole}.${/^\d{2}$/.test(cents) && cents !== '00' ? cents : '–'}`;
+  };
+  const amount = String.raw`(\d{1,3}(?:[.'’]\d{3})+|\d+)(?:[.,](\d{2}|-|–))?`;
+  return text
+    .replace(new RegExp(String.raw`\b(?:CHF|SFr\.|Fr\.)\s*${amount}(?![\d'’])`, 'g'), (_m, whole: string, cents?: string) => formatAmount(whole, cents))
+    .replace(new RegExp(String.raw`\b${amount}\s*(?:CHF|SFr\.|Fr\.)(?![\p{L}])`, 'gu'), (_m, whole: string, cents?: string) => formatAmount(whole, cents));
+}
+
+// 1.000.000, 10000 and 10 000 (non-breaking space) become 1'000'000, 10'000 and 10'000; four-digit numbers stay, they are mostly years.
+// A dot is the decimal separator in Swiss usage, so 1.500 and 0.125 stay; only several dot groups are clearly thousands
+function normalizeNumbers(text: string): string {
+  return text
+    .replace(/(?<![\d.,'’])[1-9]\d{0,2}(?:[\u00A0\u202F]\d{3})+(?![\d]|[.,]\d)/g, match => match.replace(/[\u00A0\u202F]/g, THOUSANDS_SEPARATOR))
+    .replace(/(?<![\d.,'’])[1-9]\d{0,2}(?:\.\d{3}){2,}(?![\d]|[.,]\d)/g, match => match.replace(/\./g, THOUSANDS_SEPARATOR))
+    .replace(/(?<![\d.,'’])\d{5,}(?![\d]|[.,]\d)/g, groupThousands);
+}
+
+/**
+ * Rewrites German-German conventions to Swiss Standard German: ß → ss,
+ * «Guillemets», 1'000 as thousands separator and CHF amounts as "CHF 12.50".
+ */
+export function normalizeSwissText(text: string): string {
+  const withoutEszett = text.replace(/ß/g, 'ss').replace(/ẞ/g, 'SS');
+  return normalizeNumbers(normalizeCurrency(normalizeQuotes(withoutEszett)));
+}
+
+/**
+ * Normalizes a subtitle's text and word timestamps. Words take the tokens of
+ * the normalized text if their count still matches, otherwise each word is
+ * normalized on its own. Returns only the changed fields, or null.
+ */
+export function normalizeSwissSubtitle(subtitle: Subtitle): Partial<Pick<Subtitle, 'text' | 'words'>> | null {
+  const text = normalizeSwissText(subtitle.text);
+
+  let words = subtitle.words;
+  if (subtitle.words?.length) {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const useTokens = tokens.length === subtitle.words.length;
+    words = subtitle.words.map((word, i) => {
+      const leading = /^\s*/.exec(word.word)?.[0] ?? '';
+      const normalized = useTokens ? tokens[i]! : normalizeSwissText(word.word.trim());
+      return { ...word, word: `${leading}${normalized}` };
+    });
+  }
+
+  const changes: Partial<Pick<Subtitle, 'text' | 'words'>> = {};
+  if (text !== subtitle.text) changes.text = text;
+  if (words?.some((word, i) => word.word !== subtitle.words![i]!.word)) changes.words = words;
+  return Object.keys(changes).length > 0 ? changes : null;
+}
@@ -0,0 +1,43 @@
+import type { UploadedAsset } from '~/server/lib/uploads';
+
+export interface UploadAssetOptions {
+  /** Called with the upload progress in percent (0-100) */
+  onProgress?: (percent: number) => void;
+  /** Optional file name, e.g. for Blobs created in the browser */
+  fileName?: string;
+}
+
+/**
+ * Uploads a file to the streaming upload route and resolves with its asset metadata.
+ * Uses XMLHttpRequest because fetch does not report upload progress.
+ */
+export function uploadAsset(file: Blob, options: UploadAssetOptions = {}): Promise<UploadedAsset> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    const fileName = options.fileName ?? (file instanceof File ? file.name : 'upload');
+    formData.append('file', file, fileName);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', '/api/upload');
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as UploadedAsset);
+      } else {
+        const body = xhr.response as { error?: string } | null;
+        reject(new Error(body?.error ?? `Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+    xhr.onabort = () => reject(new Error('Upload aborted'));
+
+    xhr.send(formData);
+  });
+}
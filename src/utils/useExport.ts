@@ -1,22 +1,7 @@
 import { api } from '~/trpc/react';
 import type { Subtitle } from '~/store/subtitleStore';
 import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
-
-/**
- * Converts a File object to a Base64 string
- */
-function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      // Strip the "data:video/mp4;base64," prefix from the result
-      const base64 = (reader.result as string).split(',')[1]!;
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-}
+import { uploadAsset } from '~/utils/uploadAsset';
 
 /**
  * Creates a download for a Blob with the specified name
@@ -44,12 +29,12 @@ export const useExport = () => {
     style: SubtitleStyle
   ) => {
     try {
-      // 1. Convert video file to Base64
-      const videoB64 = await fileToBase64(file);
+      // 1. Upload the video file
+      const { assetId: videoAssetId } = await uploadAsset(file);
       
       // 2. Start server-side rendering process
       const resultB64 = await exportMutation.mutateAsync({
-        videoB64,
+        videoAssetId,
         subs,
         style
       });
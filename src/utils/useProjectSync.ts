@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api } from '~/trpc/react';
+import { useSubtitleStore, type Subtitle } from '~/store/subtitleStore';
+import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
+
+export type ProjectSaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+// Edits are batched so dragging a cue does not send a request per mouse move
+const SAVE_DEBOUNCE_MS = 1000;
+
+interface TrackSave {
+  projectId: string;
+  trackId: string;
+  subtitles: Subtitle[];
+}
+
+/**
+ * Hook that loads a project into the subtitle store and saves subtitle and
+ * style changes back to it.
+ */
+export const useProjectSync = (projectId: string | null) => {
+  const projectQuery = api.project.get.useQuery(
+    { id: projectId ?? '' },
+    { enabled: !!projectId, refetchOnWindowFocus: false, staleTime: Infinity }
+  );
+  const saveDialectTrackMutation = api.project.saveDialectTrack.useMutation();
+  const updateProjectMutation = api.project.update.useMutation();
+  const utils = api.useUtils();
+  const [saveState, setSaveState] = useState<ProjectSaveState>('idle');
+
+  // Project whose subtitles are in the store; changes are only saved for it
+  const hydratedProjectId = useRef<string | null>(null);
+  const styleTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const pendingStyle = useRef<{ id: string; style: SubtitleStyle } | null>(null);
+  const subtitlesTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Track saves replace all cues, so they run one at a time; while one runs,
+  // only the latest state of each track waits (keyed by project and track)
+  const saveChain = useRef<Promise<void>>(Promise.resolve());
+  const queuedSaves = useRef(new Map<string, { save: TrackSave; done: Promise<void> }>());
+  const trpcClient = utils.client;
+
+  const queueTrackSave = useCallback((save: TrackSave): Promise<void> => {
+    const key = `${save.projectId}:${save.trackId}`;
+    const queued = queuedSaves.current.get(key);
+    if (queued) {
+      queued.save = save;
+      return queued.done;
+    }
+    const done = saveChain.current.then(async () => {
+      const latest = queuedSaves.current.get(key)!.save;
+      queuedSaves.current.delete(key);
+      await trpcClient.project.saveTrack.mutate(latest);
+    });
+    queuedSaves.current.set(key, { save, done });
+    saveChain.current = done.catch(() => undefined); // A failed save doesn't stop later ones
+    return done;
+  }, [trpcClient]);
+
+  const saveSubtitlesNow = useCallback(() => {
+    subtitlesTimeout.current = undefined;
+    const { subtitles, projectId: storeProjectId, trackId } = useSubtitleStore.getState();
+    if (!storeProjectId || !trackId || hydratedProjectId.current !== storeProjectId) return;
+    setSaveState('saving');
+    queueTrackSave({ projectId: storeProjectId, trackId, subtitles })
+      .then(() => setSaveState('saved'))
+      .catch((error) => {
+        console.error('Saving subtitles failed:', error);
+        setSaveState('error');
+      });
+  }, [queueTrackSave]);
+
+  const updateProjectRef = useRef(updateProjectMutation.mutate);
+  updateProjectRef.current = updateProjectMutation.mutate;
+
+  const saveStyleNow = useCallback(() => {
+    styleTimeout.current = undefined;
+    if (pendingStyle.current) updateProjectRef.current(pendingStyle.current);
+    pendingStyle.current = null;
+  }, []);
+
+  // Runs debounced saves right away, before the store leaves the project or the editor closes
+  const flushPendingSaves = useCallback(() => {
+    if (subtitlesTimeout.current !== undefined) {
+      clearTimeout(subtitlesTimeout.current);
+      saveSubtitlesNow();
+    }
+    if (styleTimeout.current !== undefined) {
+      clearTimeout(styleTimeout.current);
+      saveStyleNow();
+    }
+  }, [saveSubtitlesNow, saveStyleNow]);
+
+  // Load the project's first track into the store once per project
+  useEffect(() => {
+    const project = projectQuery.data;
+    if (!project || hydratedProjectId.current === project.id) return;
+    flushPendingSaves(); // Edits of the previous project
+    const track = project.tracks[0];
+    const store = useSubtitleStore.getState();
+    store.setProject(project.id, track?.id ?? null);
+    store.loadSubtitles(track?.subtitles ?? []);
+    // Set afterwards so loading does not trigger a save
+    hydratedProjectId.current = project.id;
+    setSaveState('idle');
+  }, [projectQuery.data, flushPendingSaves]);
+
+  // Save subtitles, debounced, whenever they change
+  useEffect(() => {
+    const unsubscribe = useSubtitleStore.subscribe((state, prevState) => {
+      if (state.subtitles === prevState.subtitles) return;
+      if (!state.projectId || hydratedProjectId.current !== state.projectId) return;
+      setSaveState('saving');
+      clearTimeout(subtitlesTimeout.current);
+      subtitlesTimeout.current = setTimeout(saveSubtitlesNow, SAVE_DEBOUNCE_MS);
+    });
+    return () => {
+      flushPendingSaves();
+      unsubscribe();
+    };
+  }, [saveSubtitlesNow, flushPendingSaves]);
+
+  // Makes a newly created project the current one and saves the current subtitles into it
+  const startProject = useCallback((newProjectId: string, trackId: string) => {
+    useSubtitleStore.getState().setProject(newProjectId, trackId);
+    hydratedProjectId.current = newProjectId;
+    if (useSubtitleStore.getState().subtitles.length > 0) {
+      saveSubtitlesNow();
+    }
+  }, [saveSubtitlesNow]);
+
+  // Detaches the store from any project, e.g. before starting a new one
+  const leaveProject = useCallback(() => {
+    flushPendingSaves();
+    hydratedProjectId.current = null;
+    const store = useSubtitleStore.getState();
+    store.setProject(null, null);
+    store.loadSubtitles([]);
+    setSaveState('idle');
+  }, [flushPendingSaves]);
+
+  // Switches the editor to another track of the project, saving the current one first
+  const selectTrack = useCallback(async (trackId: string) => {
+    const { subtitles, projectId: storeProjectId, trackId: currentTrackId } = useSubtitleStore.getState();
+    if (!storeProjectId || hydratedProjectId.current !== storeProjectId || trackId === currentTrackId) return;
+
+    clearTimeout(subtitlesTimeout.current);
+    subtitlesTimeout.current = undefined;
+    try {
+      if (currentTrackId) {
+        setSaveState('saving');
+        await queueTrackSave({ projectId: storeProjectId, trackId: currentTrackId, subtitles });
+      }
+      // Cached tracks are outdated once they have been edited
+      await utils.project.get.invalidate({ id: storeProjectId });
+      const project = await utils.project.get.fetch({ id: storeProjectId });
+      const track = project.tracks.find(t => t.id === trackId);
+      if (!track) throw new Error(`Track ${trackId} not found`);
+
+      // Not saved again: the loaded subtitles are what the track contains
+      hydratedProjectId.current = null;
+      const store = useSubtitleStore.getState();
+      store.setProject(storeProjectId, track.id);
+      store.loadSubtitles(track.subtitles);
+      hydratedProjectId.current = storeProjectId;
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Switching tracks failed:', error);
+      setSaveState('error');
+    }
+  }, [queueTrackSave, utils]);
+
+  // Keeps the dialect transcript of a Standard German transcription as a second track
+  const saveDialectTrack = useCallback(async (subtitles: Subtitle[]) => {
+    const { projectId: storeProjectId, trackId } = useSubtitleStore.getState();
+    if (!storeProjectId || !trackId || hydratedProjectId.current !== storeProjectId) return;
+    try {
+      await saveDialectTrackMutation.mutateAsync({ projectId: storeProjectId, trackId, subtitles });
+      await utils.project.get.invalidate({ id: storeProjectId });
+    } catch (error) {
+      console.error('Saving the dialect track failed:', error);
+    }
+  }, [saveDialectTrackMutation, utils]);
+
+  const saveStyle = useCallback((style: SubtitleStyle) => {
+    const storeProjectId = useSubtitleStore.getState().projectId;
+    if (!storeProjectId || hydratedProjectId.current !== storeProjectId) return;
+    clearTimeout(styleTimeout.current);
+    pendingStyle.current = { id: storeProjectId, style };
+    styleTimeout.current = setTimeout(saveStyleNow, SAVE_DEBOUNCE_MS);
+  }, [saveStyleNow]);
+
+  return {
+    project: projectQuery.data ?? null,
+    isLoading: projectQuery.isLoading && !!projectId,
+    error: projectQuery.error,
+    saveState,
+    startProject,
+    leaveProject,
+    saveStyle,
+    selectTrack,
+    saveDialectTrack,
+  };
+};
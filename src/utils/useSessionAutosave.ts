@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSubtitleStore } from '~/store/subtitleStore';
+import { deleteSession, loadSession, saveSession, type EditorSession } from '~/utils/sessionPersistence';
+import type { SubtitleStyle } from '~/app/_components/VideoPlayerWithKonva';
+
+// IndexedDB writes are cheap, but a drag still fires a change per mouse move
+const AUTOSAVE_DEBOUNCE_MS = 500;
+
+/**
+ * Hook that autosaves the editor session (subtitles, undo/redo history and
+ * style) to IndexedDB for the current video and offers to restore a saved
+ * session when that video is opened again.
+ *
+ * videoKeys lists every identifier of the current video; the first one
+ * decides which saved session is looked up.
+ */
+export const useSessionAutosave = ({
+  videoKeys,
+  videoName,
+  style,
+}: {
+  videoKeys: string[];
+  videoName: string | null;
+  style: SubtitleStyle;
+}) => {
+  const [pendingSession, setPendingSession] = useState<EditorSession | null>(null);
+
+  // Video whose saved session has been checked; nothing is saved before that
+  const checkedKey = useRef<string | null>(null);
+  const pendingRef = useRef(false);
+  const latest = useRef({ videoKeys, videoName, style });
+  latest.current = { videoKeys, videoName, style };
+  const timeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const saveNow = useCallback(() => {
+    const { videoKeys: keys, videoName: name, style: currentStyle } = latest.current;
+    if (!keys[0] || checkedKey.current !== keys[0] || pendingRef.current) return;
+    const { subtitles, undoStack, redoStack } = useSubtitleStore.getState();
+    saveSession(
+      { videoName: name ?? keys[0], subtitles, undoStack, redoStack, style: currentStyle, savedAt: Date.now() },
+      keys
+    ).catch((error) => console.error('Autosaving the editor session failed:', error));
+  }, []);
+
+  const scheduleSave = useCallback(() => {
+    clearTimeout(timeout.current);
+    timeout.current = setTimeout(saveNow, AUTOSAVE_DEBOUNCE_MS);
+  }, [saveNow]);
+
+  // Look up a saved session whenever another video is opened
+  const primaryKey = videoKeys[0] ?? null;
+  useEffect(() => {
+    checkedKey.current = null;
+    pendingRef.current = false;
+    setPendingSession(null);
+    if (!primaryKey) return;
+
+    let cancelled = false;
+    loadSession(primaryKey)
+      .then((session) => {
+        if (cancelled) return;
+        checkedKey.current = primaryKey;
+        const hasContent = !!session && (session.subtitles.length > 0 || session.undoStack.length > 0);
+        if (!session || !hasContent) {
+          scheduleSave();
+          return;
+        }
+
+        const { subtitles, undoStack } = useSubtitleStore.getState();
+        if (JSON.stringify(session.subtitles) === JSON.stringify(subtitles)) {
+          // Same subtitles as loaded, e.g. from the project: just bring the history back
+          if (undoStack.length === 0) {
+            useSubtitleStore.getState().restoreSession(session);
+          }
+          return;
+        }
+
+        pendingRef.current = true;
+        setPendingSession(session);
+      })
+      .catch((error) => {
+        console.error('Loading the saved editor session failed:', error);
+        if (!cancelled) checkedKey.current = primaryKey;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [primaryKey, scheduleSave]);
+
+  // Save subtitle and history changes, debounced
+  useEffect(() => {
+    const unsubscribe = useSubtitleStore.subscribe((state, prevState) => {
+      if (
+        state.subtitles === prevState.subtitles &&
+        state.undoStack === prevState.undoStack &&
+        state.redoStack === prevState.redoStack
+      ) return;
+      scheduleSave();
+    });
+    return () => {
+      clearTimeout(timeout.current);
+      unsubscribe();
+    };
+  }, [scheduleSave]);
+
+  // Save style changes and newly known video keys (e.g. once the upload finished)
+  const keysSignature = videoKeys.join('|');
+  useEffect(() => {
+    scheduleSave();
+  }, [style, keysSignature, scheduleSave]);
+
+  // Replaces the editor state with the saved session; returns its style for the caller to apply
+  const restorePendingSession = useCallback((): SubtitleStyle | null => {
+    if (!pendingSession) return null;
+    useSubtitleStore.getState().restoreSession(pendingSession);
+    pendingRef.current = false;
+    setPendingSession(null);
+    scheduleSave();
+    return pendingSession.style;
+  }, [pendingSession, scheduleSave]);
+
+  // Drops the saved session and keeps the current state, which is saved from now on
+  const discardPendingSession = useCallback(() => {
+    if (!pendingSession) return;
+    deleteSession(pendingSession.videoKey)
+      .catch((error) => console.error('Deleting the saved editor session failed:', error));
+    pendingRef.current = false;
+    setPendingSession(null);
+    scheduleSave();
+  }, [pendingSession, scheduleSave]);
+
+  return {
+    pendingSession,
+    restorePendingSession,
+    discardPendingSession,
+  };
+};
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api } from '~/trpc/react';
+import type { TranscriptionSegment } from '~/server/api/routers/video';
+
+// The running job survives a reload, so its result still reaches the timeline
+const STORAGE_KEY = 'transcriptionJob';
+const POLL_INTERVAL_MS = 2000;
+
+interface StoredTranscriptionJob {
+  jobId: string;
+  videoAssetId: string | null; // Video the job belongs to; results are only applied to it
+  input?: 'video' | 'audio'; // What the job transcribes: the uploaded video or audio extracted in the browser
+}
+
+type StartTranscriptionInput = Parameters<ReturnType<typeof api.video.startTranscription.useMutation>['mutateAsync']>[0];
+
+const readStoredJob = (): StoredTranscriptionJob | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredTranscriptionJob) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Hook that runs transcriptions on the background queue, polls their status
+ * and hands the segments to onCompleted once the job for the current video
+ * has finished, also after a page reload.
+ */
+export const useTranscriptionJob = ({
+  videoAssetId,
+  onCompleted,
+  onAudioExtractionFailed,
+}: {
+  videoAssetId: string | null;
+  onCompleted: (segments: TranscriptionSegment[], dialectSegments: TranscriptionSegment[] | null) => void; // dialectSegments: original of a Standard German transcription
+  onAudioExtractionFailed: () => void; // The server could not read the audio of a video job, e.g. to fall back to the browser
+}) => {
+  const [job, setJob] = useState<StoredTranscriptionJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const startMutation = api.video.startTranscription.useMutation();
+
+  // Callbacks are read from refs so the status effect only runs for new data
+  const callbacks = useRef({ onCompleted, onAudioExtractionFailed });
+  callbacks.current = { onCompleted, onAudioExtractionFailed };
+
+  useEffect(() => {
+    setJob(readStoredJob());
+  }, []);
+
+  const updateJob = useCallback((nextJob: StoredTranscriptionJob | null) => {
+    setJob(nextJob);
+    if (nextJob) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(nextJob));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  // Jobs for another video keep waiting until that video is open again
+  const isCurrentVideoJob = !!job && (job.videoAssetId === null || job.videoAssetId === videoAssetId);
+
+  const statusQuery = api.video.getTranscriptionStatus.useQuery(
+    { jobId: job?.jobId ?? '' },
+    {
+      enabled: isCurrentVideoJob,
+      refetchInterval: (query) => {
+        const data = query.state.data;
+        return data?.isCompleted || data?.isFailed ? false : POLL_INTERVAL_MS;
+      },
+      refetchOnWindowFocus: false,
+      retry: false,
+    }
+  );
+
+  useEffect(() => {
+    const data = statusQuery.data;
+    if (!data || !job || data.jobId !== job.jobId) return;
+
+    if (data.isCompleted) {
+      updateJob(null);
+      callbacks.current.onCompleted(data.segments ?? [], data.dialectSegments);
+    } else if (data.isFailed) {
+      updateJob(null);
+      // Audio from the browser has no further fallback, so its failures are shown
+      if (data.audioExtractionFailed && job.input === 'video') {
+        callbacks.current.onAudioExtractionFailed();
+      } else {
+        setError(data.failedReason ?? 'Unknown transcription error');
+      }
+    }
+  }, [statusQuery.data, job, updateJob]);
+
+  // Jobs removed from the queue (e.g. expired) can't be resumed
+  useEffect(() => {
+    if (statusQuery.error?.data?.code === 'NOT_FOUND') {
+      console.warn('Transcription job no longer exists:', job?.jobId);
+      updateJob(null);
+    }
+  }, [statusQuery.error, job?.jobId, updateJob]);
+
+  const start = useCallback(async (input: StartTranscriptionInput) => {
+    setError(null);
+    try {
+      const { jobId } = await startMutation.mutateAsync(input);
+      updateJob({ jobId, videoAssetId, input: input.videoAssetId ? 'video' : 'audio' });
+    } catch (err) {
+      console.error('Starting the transcription failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }, [startMutation, updateJob, videoAssetId]);
+
+  const status = isCurrentVideoJob && statusQuery.data?.jobId === job?.jobId ? statusQuery.data : null;
+
+  return {
+    start,
+    isRunning: startMutation.isPending || isCurrentVideoJob,
+    progress: status?.progress ?? null,
+    isWaiting: status?.isWaiting ?? false,
+    error,
+  };
+};
@@ -0,0 +1,124 @@
+// Word timestamp as stored on subtitles and transcription segments
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+// Lowercased token without surrounding punctuation, for comparing words
+const normalizeToken = (token: string) => token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+export const tokenizeText = (text: string) => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Spreads words over [start, end] proportionally to their length.
+ */
+export function distributeWords(tokens: string[], start: number, end: number): TimedWord[] {
+  const weights = tokens.map(token => Math.max(1, token.length));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const span = Math.max(0, end - start);
+
+  let offset = 0;
+  return tokens.map((word, i) => {
+    const wordStart = start + span * offset / totalWeight;
+    offset += weights[i]!;
+    return { word, start: wordStart, end: start + span * offset / totalWeight };
+  });
+}
+
+// Index pairs of the longest common subsequence of two token lists
+function matchTokens(a: string[], b: string[]): [number, number][] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] && a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] && a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Rebuilds word timestamps so they join back into text: one word per text
+ * token. Tokens matching an existing word keep its timing; the others share
+ * the time of the words they replace, or of the gap between their matched
+ * neighbours, within [start, end].
+ */
+export function alignWordsToText(text: string, words: TimedWord[], start: number, end: number): TimedWord[] {
+  const tokens = tokenizeText(text);
+  if (tokens.length === 0) return [];
+  if (words.length === 0) return distributeWords(tokens, start, end);
+
+  const pairs = matchTokens(tokens.map(normalizeToken), words.map(word => normalizeToken(word.word)));
+  const aligned: TimedWord[] = [];
+  let tokenIndex = 0;
+  let wordIndex = 0;
+
+  // Unmatched tokens up to the next match (or the end) get the time of the unmatched words in between
+  const fillGap = (tokenEnd: number, wordEnd: number) => {
+    const gapTokens = tokens.slice(tokenIndex, tokenEnd);
+    if (gapTokens.length > 0) {
+      const gapWords = words.slice(wordIndex, wordEnd);
+      const gapStart = gapWords[0]?.start ?? words[wordIndex - 1]?.end ?? start;
+      const gapEnd = gapWords[gapWords.length - 1]?.end ?? words[wordEnd]?.start ?? end;
+      aligned.push(...distributeWords(gapTokens, gapStart, Math.max(gapStart, gapEnd)));
+    }
+  };
+
+  for (const [matchedToken, matchedWord] of pairs) {
+    fillGap(matchedToken, matchedWord);
+    aligned.push({ ...words[matchedWord]!, word: tokens[matchedToken]! });
+    tokenIndex = matchedToken + 1;
+    wordIndex = matchedWord + 1;
+  }
+  fillGap(tokens.length, words.length);
+  return aligned;
+}
+
+/**
+ * Assigns each word to a segment it overlaps, preferring segments whose text
+ * contains it, then the larger overlap. Words overlapping no segment go to the
+ * nearest one, so words straddling a segment boundary are not lost.
+ */
+export function assignWordsToSegments<W extends { word: string; start: number; end: number }>(
+  segments: { start: number; end: number; text?: string }[],
+  words: W[]
+): W[][] {
+  const assigned = segments.map((): W[] => []);
+  if (segments.length === 0) return assigned;
+  const segmentTokens = segments.map(segment => new Set(tokenizeText(segment.text ?? '').map(normalizeToken)));
+
+  for (const word of words) {
+    const token = normalizeToken(word.word);
+    let best = 0;
+    let bestOverlap = -Infinity;
+    let bestContainsWord = false;
+    segments.forEach((segment, index) => {
+      // Overlap with the segment, or the negative distance to it; earlier segments win ties
+      const overlap = Math.min(word.end, segment.end) - Math.max(word.start, segment.start);
+      const containsWord = overlap > 0 && segmentTokens[index]!.has(token);
+      if (containsWord !== bestContainsWord ? containsWord : overlap > bestOverlap) {
+        best = index;
+        bestOverlap = overlap;
+        bestContainsWord = containsWord;
+      }
+    });
+    assigned[best]!.push(word);
+  }
+  return assigned;
+}